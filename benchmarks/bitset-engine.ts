@@ -0,0 +1,60 @@
+/**
+ * Compares the execution time of the default engine and the bitset engine of the class splitters and checks that both create the same nodes.
+ * Each engine runs three times alternately and the fastest run is reported, so that the warm up of the JIT compiler does not favour one engine.
+ * Run with `npm run benchmark`, the size of the fixture can be changed by the arguments `[setsCount] [elementsCount] [elementsPerSet]`.
+ */
+import { isDeepStrictEqual } from 'util';
+import {
+    BiggestIntersectionsSplitter,
+    IntersectionEngine,
+    mapFunctionsDict,
+    SetNode,
+    WeightedIntersectionsSplitter,
+} from '../src';
+
+const ROUNDS = 3;
+
+const [setsCount = 40, elementsCount = 1000, elementsPerSet = 60] = process.argv.slice(2).map((argument) => parseInt(argument, 10));
+
+/**
+ * Creates the same sets on every run by a linear congruential generator. Elements with a low index are included more often, like shared modules.
+ */
+function createSets(): Set<string>[] {
+    let seed = 42;
+    const random = () => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed / 2147483648;
+    };
+    return Array.from({length: setsCount}, () => {
+        const set: Set<string> = new Set();
+        while (set.size < elementsPerSet) {
+            set.add(`element${Math.floor(random() ** 2 * elementsCount)}`);
+        }
+        return set;
+    });
+}
+
+function measure(name: string, split: (engine: IntersectionEngine) => SetNode<string>[]): void {
+    const results = (<IntersectionEngine[]>['default', 'bitset']).map((engine) => ({engine, nodes: <SetNode<string>[]>[], milliseconds: Infinity}));
+    for (let round = 0; round < ROUNDS; round++) {
+        results.forEach((result) => {
+            const start = process.hrtime.bigint();
+            result.nodes = split(result.engine);
+            result.milliseconds = Math.min(result.milliseconds, Number(process.hrtime.bigint() - start) / 1e6);
+        });
+    }
+    results.forEach(({engine, nodes, milliseconds}) => {
+        console.log(`${name} ${engine}: ${milliseconds.toFixed(0)} ms, ${nodes.length} nodes`);
+    });
+    if (!isDeepStrictEqual(results[0].nodes, results[1].nodes)) {
+        throw new Error(`${name}: the engines created different nodes`);
+    }
+}
+
+const sets = new Set(createSets());
+console.log(`${setsCount} sets with ${elementsPerSet} of ${elementsCount} elements`);
+measure('BiggestIntersectionsSplitter', (engine) => new BiggestIntersectionsSplitter<string>(true, {engine}).splitSets(sets));
+measure(
+    'WeightedIntersectionsSplitter',
+    (engine) => new WeightedIntersectionsSplitter(mapFunctionsDict.strings, undefined, undefined, {engine}).splitSets(sets),
+);
@@ -1,13 +1,22 @@
 import {
     addMaxDepthToNodes,
     convertSetsToArraysAndUseSplitFunction,
-    ArrayIntersectionsSplitFunction,
-    SetIntersectionsSplitFunction,
+    createKeyableArraySplitFunction,
+    createKeyableSetSplitFunction,
+    createNodeId,
+    getElementsWeight,
+    KeyableArrayIntersectionsSplitFunction,
+    KeyableSetIntersectionsSplitFunction,
     SetNode,
     ArrayNode,
     Arrays,
+    ElementWeightFunction,
+    IntersectionEngine,
+    IntersectionsSplitterOptions,
+    NodeIdFunction,
     Sets,
 } from './helpers';
+import { BitSetIndex } from './bitset';
 
 /**
  * @typedef ArraySorter - Sort function which can be used in an `Array.prototype.sort()` function.
@@ -16,6 +25,11 @@ export type ArraySorter<T> = (value1: T, value2: T) => number;
 
 type IntersectionFunction<T> = (array1: T[], array2: T[]) => T[];
 
+/**
+ * The relative difference by which the sum of the element weights can change, when the elements are added in another order.
+ */
+const WEIGHT_TOLERANCE = 1e-9;
+
 /**
  * Class to pull out intersecting elements of arrays out into their own array by weight functions. This class can create
  * intersections on any type of array of arrays. The method can run, depending on the weight functions and the structure
@@ -24,12 +38,47 @@ type IntersectionFunction<T> = (array1: T[], array2: T[]) => T[];
 export class BiggestIntersectionsSplitter<T> {
     private readonly intersectionFunction: IntersectionFunction<T>;
 
+    private readonly idFunction: NodeIdFunction<T>;
+
+    private readonly elementWeight?: ElementWeightFunction<T>;
+
+    private readonly minElements: number;
+
+    private readonly minWeight: number;
+
+    private readonly maxDepth: number;
+
+    private readonly maxGeneratedNodes: number;
+
+    private readonly engine: IntersectionEngine;
+
     /**
      * @param sort - When true than `.sort()` is called on each set. When a sort function is provided, than this sort function will
      * be used to sort each set and also for the comparison of equality when getting the intersection between two sets. In both of these cases
      * the an algorithm over sorted arrays is used, which can be substantially faster than the algorithm used when sort is false.
+     * @param options - The options of the split. When an `elementWeight` is provided, the intersection with the biggest weight is split first.
+     * Intersections below `minElements` or `minWeight` are skipped and the biggest of the other intersections is split instead. The splitting stops when
+     * no intersection is left or when `maxGeneratedNodes` nodes are created.
      */
-    constructor(private sort: ArraySorter<T> | boolean) {
+    constructor(
+        private sort: ArraySorter<T> | boolean,
+        {
+            idFunction = createNodeId,
+            elementWeight,
+            minElements = 1,
+            minWeight = 0,
+            maxDepth = Infinity,
+            maxGeneratedNodes = Infinity,
+            engine = 'default',
+        }: IntersectionsSplitterOptions<T> = {},
+    ) {
+        this.idFunction = idFunction;
+        this.elementWeight = elementWeight;
+        this.minElements = minElements;
+        this.minWeight = minWeight;
+        this.maxDepth = maxDepth;
+        this.maxGeneratedNodes = maxGeneratedNodes;
+        this.engine = engine;
         if (sort === true) {
             this.intersectionFunction = this.getIntersectionFromOrderedArrays;
         } else if (sort === false) {
@@ -39,13 +88,22 @@ export class BiggestIntersectionsSplitter<T> {
         }
     }
 
-    public splitSets: SetIntersectionsSplitFunction<T, SetNode<T>> = (
+    /**
+     * `SplitFunction` to pull out the intersecting elements. When keyed collections are provided a `KeyedSplitResult` is returned.
+     * @param sets - The set of sets or the keyed collections.
+     */
+    public splitSets: KeyableSetIntersectionsSplitFunction<T, SetNode<T>> = createKeyableSetSplitFunction((
         sets: Sets<T>,
-    ): SetNode<T>[] => convertSetsToArraysAndUseSplitFunction(sets, this.splitArrays);
+    ): SetNode<T>[] => convertSetsToArraysAndUseSplitFunction(sets, this.splitArrays));
 
-    public splitArrays: ArrayIntersectionsSplitFunction<T, ArrayNode<T>> = (arrays: Arrays<T>): ArrayNode<T>[] => {
+    /**
+     * `SplitFunction` to pull out the intersecting elements. When keyed collections are provided a `KeyedSplitResult` is returned.
+     * @param arrays - The array of arrays or the keyed collections.
+     */
+    public splitArrays: KeyableArrayIntersectionsSplitFunction<T, ArrayNode<T>> = createKeyableArraySplitFunction((arrays: Arrays<T>): ArrayNode<T>[] => {
         const arrayNodes: ArrayNode<T>[] = arrays.map((array) => ({
             array,
+            id: this.idFunction(array),
             rest: this.sort === true
                 ? [...array].sort()
                 : this.sort === false
@@ -55,15 +113,21 @@ export class BiggestIntersectionsSplitter<T> {
             imports: <ArrayNode<T>[]>[],
         }));
 
-        while (this.splitArrayNodes(arrayNodes) > 0) {} // eslint-disable-line no-empty
+        const bitSetIndex = this.engine === 'bitset' ? this.createBitSetIndex(arrays) : undefined;
+        let generatedNodes = 0;
+        while (generatedNodes < this.maxGeneratedNodes && this.splitArrayNodes(arrayNodes, bitSetIndex) > 0) {
+            generatedNodes++;
+        }
         addMaxDepthToNodes(arrayNodes);
 
         return arrayNodes;
-    };
+    });
 
-    private splitArrayNodes(arrayNodes: ArrayNode<T>[]) {
+    private splitArrayNodes(arrayNodes: ArrayNode<T>[], bitSetIndex?: BitSetIndex<T>) {
+        // Nodes at the maximum depth keep their shared elements, the depth of each node is final when it is created.
+        const splittableNodes = arrayNodes.filter(({depth}) => depth < this.maxDepth);
         const elementCount: Map<T, number> = new Map();
-        arrayNodes.forEach(({rest}) => {
+        splittableNodes.forEach(({rest}) => {
             rest.forEach((element) => {
                 if (!elementCount.has(element)) {
                     elementCount.set(element, 1);
@@ -84,59 +148,76 @@ export class BiggestIntersectionsSplitter<T> {
         if (counts[0] === 1) {
             return 0;
         }
-        const singleElements = <T []>(elementCountMap.get(1) ? elementCountMap.get(1) : []);
-        let filteredArrays: ArrayNode<T>[] = arrayNodes.map(
-            ({array, rest, imports}) => (
+        const singleElements: Set<T> = new Set(elementCountMap.get(1));
+        const filteredArrays: ArrayNode<T>[] = splittableNodes.map(
+            ({
+                array, id, rest, imports,
+            }) => (
                 {
                     array,
-                    rest: rest.filter((element) => !singleElements.includes(element)),
+                    id,
+                    rest: rest.filter((element) => !singleElements.has(element)),
                     imports,
                     depth: 0,
                 }
             ),
         );
+        const restWeights: Map<ArrayNode<T>, number> = new Map(filteredArrays.map((filteredArray) => [
+            filteredArray,
+            getElementsWeight(filteredArray.rest, this.elementWeight),
+        ]));
+        const elementArrays: Map<T, ArrayNode<T>[]> = new Map();
+        filteredArrays.forEach((filteredArray) => {
+            new Set(filteredArray.rest).forEach((element) => {
+                const arraysOfElement = elementArrays.get(element);
+                if (arraysOfElement) {
+                    arraysOfElement.push(filteredArray);
+                } else {
+                    elementArrays.set(element, [filteredArray]);
+                }
+            });
+        });
+        // The arrays which are not intersected yet. Arrays whose rest is not heavier than the longest intersection are removed, the lightest first.
+        const remainingArrays: Set<ArrayNode<T>> = new Set(filteredArrays);
+        const arraysByWeight = [...filteredArrays].sort((a, b) => <number>restWeights.get(a) - <number>restWeights.get(b));
+        let lightArraysCount = 0;
         let longestIntersection:T[] = [];
         let longest = 0;
-        const baseArrays: ArrayNode<T>[] = [];
+        const baseRests: Arrays<T> = [];
         /* eslint-disable no-restricted-syntax */
-        for (const count of counts.slice(0, -1)) {
+        for (const count of counts.filter((elementsCount) => elementsCount > 1)) {
             const elements = <T []>elementCountMap.get(count);
             for (const element of elements) {
-                const nextIntersectedArrays: ArrayNode<T>[] = [];
-                const nextFilteredArrays: ArrayNode<T>[] = [];
-                for (const filteredArray of filteredArrays) {
-                    const { rest } = filteredArray;
-                    if (rest.length > longest) {
-                        if (rest.includes(element)) {
-                            nextIntersectedArrays.push(filteredArray);
-                        } else {
-                            nextFilteredArrays.push(filteredArray);
-                        }
-                    }
+                while (lightArraysCount < arraysByWeight.length && <number>restWeights.get(arraysByWeight[lightArraysCount]) <= longest) {
+                    remainingArrays.delete(arraysByWeight[lightArraysCount]);
+                    lightArraysCount++;
                 }
-                const intersection = this.getLongestIntersection(
-                    baseArrays.map(({rest}) => rest),
-                    nextIntersectedArrays.map(({rest}) => rest),
-                    longest,
-                );
-                if (longest < intersection.length) {
-                    longest = intersection.length;
+                const nextIntersectedArrays = (<ArrayNode<T>[]>elementArrays.get(element)).filter((filteredArray) => remainingArrays.has(filteredArray));
+                nextIntersectedArrays.forEach((filteredArray) => remainingArrays.delete(filteredArray));
+                const nextRests = nextIntersectedArrays.map(({rest}) => rest);
+                const intersection = this.getLongestIntersection(baseRests, nextRests, longest, bitSetIndex);
+                const intersectionWeight = getElementsWeight(intersection, this.elementWeight);
+                if (longest < intersectionWeight) {
+                    longest = intersectionWeight;
                     longestIntersection = intersection;
                 }
-                baseArrays.push(...nextIntersectedArrays);
-                filteredArrays = nextFilteredArrays;
-                if (filteredArrays.length === 0) {
+                baseRests.push(...nextRests);
+                if (remainingArrays.size === 0) {
                     if (longestIntersection.length > 0) {
                         const intersectingArrayNode: ArrayNode<T> = {
                             array: longestIntersection,
+                            id: this.idFunction(longestIntersection),
                             rest: longestIntersection,
                             imports: [],
                             depth: 1,
                         };
-                        arrayNodes.forEach((aNode) => { /* eslint-disable-line @typescript-eslint/no-loop-func */
-                            if (longestIntersection.every((includedElement) => aNode.rest.includes(includedElement))) {
-                                aNode.rest = aNode.rest.filter((el) => !longestIntersection.includes(el));
+                        const intersectionSet = new Set(longestIntersection);
+                        splittableNodes.forEach((aNode) => { /* eslint-disable-line @typescript-eslint/no-loop-func */
+                            const restSet = new Set(aNode.rest);
+                            if (longestIntersection.every((includedElement) => restSet.has(includedElement))) {
+                                aNode.rest = aNode.rest.filter((el) => !intersectionSet.has(el));
                                 aNode.imports.push(intersectingArrayNode);
+                                intersectingArrayNode.depth = Math.max(intersectingArrayNode.depth, aNode.depth + 1);
                             }
                         });
                         arrayNodes.push(intersectingArrayNode);
@@ -149,21 +230,59 @@ export class BiggestIntersectionsSplitter<T> {
         /* eslint-enable no-restricted-syntax */
     }
 
-    private getLongestIntersection(baseArrays: Arrays<T>, nextArrays: Arrays<T>, longest: number): T[] {
-        const allArrays = [...nextArrays, ...baseArrays];
+    /**
+     * Returns the longest intersection of the next arrays with each other and with the base arrays, which is longer than `longest`.
+     */
+    private getLongestIntersection(baseArrays: Arrays<T>, nextArrays: Arrays<T>, longest: number, bitSetIndex?: BitSetIndex<T>): T[] {
         let longestIntersection: T[] = [];
         nextArrays.forEach((set, i) => {
-            allArrays.slice(i + 1).forEach((all) => {
+            const intersect = (all: T[]) => {
+                if (bitSetIndex) {
+                    // Each element of the intersection has its bit set in both bitsets, so that the weight of these bits is the maximum weight of the
+                    // intersection. Only intersections which can be bigger than the longest one are created.
+                    const maxWeight = this.elementWeight
+                        ? bitSetIndex.getIntersectionWeight(set, all) * (1 + WEIGHT_TOLERANCE)
+                        : bitSetIndex.countIntersection(set, all);
+                    if (maxWeight <= longest) {
+                        return;
+                    }
+                }
                 const intersection = this.intersectionFunction(set, all);
-                if (longest < intersection.length) {
-                    longest = intersection.length;
+                const intersectionWeight = getElementsWeight(intersection, this.elementWeight);
+                if (longest < intersectionWeight && intersection.length >= this.minElements && intersectionWeight >= this.minWeight) {
+                    longest = intersectionWeight;
                     longestIntersection = intersection;
                 }
-            });
+            };
+            for (let j = i + 1; j < nextArrays.length; j++) {
+                intersect(nextArrays[j]);
+            }
+            baseArrays.forEach(intersect);
         });
         return longestIntersection;
     }
 
+    /**
+     * Returns the index of the bitset engine, where elements are equal when the intersection function considers them equal. Arrays which include equal
+     * elements are split by the default engine, because their bitsets include the equal elements only once.
+     * @param arrays - The arrays to split
+     */
+    private createBitSetIndex(arrays: Arrays<T>): BitSetIndex<T> | undefined {
+        let compare: ArraySorter<T> | undefined;
+        if (this.sort === true) {
+            compare = (value1, value2) => {
+                if (value1 < value2) {
+                    return -1;
+                }
+                return value2 < value1 ? 1 : 0;
+            };
+        } else if (this.sort !== false) {
+            compare = this.sort;
+        }
+        const bitSetIndex = new BitSetIndex<T>(arrays, {compare, elementWeight: this.elementWeight});
+        return arrays.every((array) => bitSetIndex.countDistinct(array) === array.length) ? bitSetIndex : undefined;
+    }
+
     private getIntersection(array1: T[], array2: T[]): T[] {
         const [a1, a2] = array1.length < array2.length ? [array1, array2] : [array2, array1];
         return a1.filter((element) => a2.includes(element));
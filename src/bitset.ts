@@ -0,0 +1,184 @@
+import { ElementWeightFunction } from './helpers';
+
+/**
+ * The options of the class `BitSetIndex`.
+ * @typedef BitSetIndexOptions
+ * @property compare - Sort function which defines which elements are equal. Elements for which it returns 0 get the same bit. Without a sort function the
+ * elements are compared by identity like in a `Set`.
+ * @property elementWeight - The weight of each element, which is used by `getIntersectionWeight`. The weight of a bit is the biggest weight of its
+ * elements.
+ */
+export type BitSetIndexOptions<T> = {
+    compare?: (element1: T, element2: T) => number;
+    elementWeight?: ElementWeightFunction<T>;
+};
+
+/**
+ * The bitset of a collection.
+ * @typedef BitSet
+ * @property words - The words of the bitset, one bit for each element of the index
+ * @property usedWords - The indices of the words which are not 0 in ascending order
+ */
+export type BitSet = {
+    words: Uint32Array;
+    usedWords: number[];
+};
+
+/**
+ * Index of all elements of the split collections, which represents each set or array as a bitset in a `Uint32Array`. Each distinct element gets the index
+ * of a bit, so that intersections are created word by word and the elements are only looked up for the bits of the intersection. Only the words which are
+ * used by the bitset with less used words are intersected, so that small collections are intersected as fast as big ones.
+ */
+export class BitSetIndex<T> {
+    private readonly elementIndices: Map<T, number> = new Map();
+
+    private readonly elements: T[] = [];
+
+    private readonly bitWeights: number[] = [];
+
+    private readonly wordCount: number;
+
+    private readonly bitSets: WeakMap<Set<T> | T[], BitSet> = new WeakMap();
+
+    /**
+     * @param collections - The sets or arrays, which include all elements which will be used with this index.
+     * @param options - The comparison and the weights of the elements
+     */
+    constructor(collections: Iterable<Iterable<T>>, {compare, elementWeight}: BitSetIndexOptions<T> = {}) {
+        const distinctElements: Set<T> = new Set();
+        [...collections].forEach((collection) => {
+            [...collection].forEach((element) => distinctElements.add(element));
+        });
+        const orderedElements = compare ? [...distinctElements].sort(compare) : [...distinctElements];
+        orderedElements.forEach((element, i) => {
+            if (i === 0 || !compare || compare(orderedElements[i - 1], element) !== 0) {
+                this.elements.push(element);
+                this.bitWeights.push(0);
+            }
+            const index = this.elements.length - 1;
+            this.elementIndices.set(element, index);
+            if (elementWeight) {
+                this.bitWeights[index] = Math.max(this.bitWeights[index], elementWeight(element));
+            }
+        });
+        this.wordCount = Math.ceil(this.elements.length / 32);
+    }
+
+    /**
+     * Returns the bitset of the set or array. The bitset is created once for each collection and has to be updated by `update` when the collection
+     * changes.
+     * @param collection - The set or array
+     */
+    public getBitSet(collection: Set<T> | T[]): BitSet {
+        let bitSet = this.bitSets.get(collection);
+        if (!bitSet) {
+            bitSet = this.createBitSet(collection);
+            this.bitSets.set(collection, bitSet);
+        }
+        return bitSet;
+    }
+
+    /**
+     * Creates the bitset of a changed set or array again.
+     * @param collection - The changed set or array
+     */
+    public update(collection: Set<T> | T[]): void {
+        this.bitSets.set(collection, this.createBitSet(collection));
+    }
+
+    /**
+     * Returns the number of distinct bits of the collection, which is lower than the number of its elements when it includes equal elements.
+     */
+    public countDistinct(collection: Set<T> | T[]): number {
+        return this.getBitSet(collection).words.reduce((count, word) => count + countBits(word), 0);
+    }
+
+    /**
+     * Returns the number of bits which are set in both collections.
+     */
+    public countIntersection(collection1: Set<T> | T[], collection2: Set<T> | T[]): number {
+        const { words: words1, usedWords: usedWords1 } = this.getBitSet(collection1);
+        const { words: words2, usedWords: usedWords2 } = this.getBitSet(collection2);
+        const usedWords = usedWords1.length <= usedWords2.length ? usedWords1 : usedWords2;
+        let count = 0;
+        for (let j = 0; j < usedWords.length; j++) {
+            const i = usedWords[j];
+            count += countBits(words1[i] & words2[i]); // eslint-disable-line no-bitwise
+        }
+        return count;
+    }
+
+    /**
+     * Returns the sum of the weights of the bits which are set in both collections. Without an `elementWeight` in the options it is 0.
+     */
+    public getIntersectionWeight(collection1: Set<T> | T[], collection2: Set<T> | T[]): number {
+        const { words: words1, usedWords: usedWords1 } = this.getBitSet(collection1);
+        const { words: words2, usedWords: usedWords2 } = this.getBitSet(collection2);
+        const usedWords = usedWords1.length <= usedWords2.length ? usedWords1 : usedWords2;
+        let weight = 0;
+        /* eslint-disable no-bitwise */
+        for (let j = 0; j < usedWords.length; j++) {
+            const i = usedWords[j];
+            let word = words1[i] & words2[i];
+            while (word !== 0) {
+                const lowestBit = word & -word;
+                weight += this.bitWeights[i * 32 + 31 - Math.clz32(lowestBit)];
+                word ^= lowestBit;
+            }
+        }
+        /* eslint-enable no-bitwise */
+        return weight;
+    }
+
+    /**
+     * Returns the intersection of the sets, whose elements are in the order of their bits.
+     */
+    public intersectSets(set1: Set<T>, set2: Set<T>): Set<T> {
+        const { words: words1, usedWords: usedWords1 } = this.getBitSet(set1);
+        const { words: words2, usedWords: usedWords2 } = this.getBitSet(set2);
+        const usedWords = usedWords1.length <= usedWords2.length ? usedWords1 : usedWords2;
+        const intersectedSet: Set<T> = new Set();
+        /* eslint-disable no-bitwise */
+        for (let j = 0; j < usedWords.length; j++) {
+            const i = usedWords[j];
+            let word = words1[i] & words2[i];
+            while (word !== 0) {
+                const lowestBit = word & -word;
+                intersectedSet.add(this.elements[i * 32 + 31 - Math.clz32(lowestBit)]);
+                word ^= lowestBit;
+            }
+        }
+        /* eslint-enable no-bitwise */
+        return intersectedSet;
+    }
+
+    private createBitSet(collection: Set<T> | T[]): BitSet {
+        const words = new Uint32Array(this.wordCount);
+        collection.forEach((element: T) => {
+            const index = this.elementIndices.get(element);
+            if (index === undefined) {
+                throw new Error(`Element ${String(element)} is not included in the collections of the bitset index`);
+            }
+            words[index >>> 5] |= 1 << (index & 31); // eslint-disable-line no-bitwise
+        });
+        const usedWords: number[] = [];
+        words.forEach((word, i) => {
+            if (word !== 0) {
+                usedWords.push(i);
+            }
+        });
+        return { words, usedWords };
+    }
+}
+
+/**
+ * Returns the number of set bits of a 32 bit word.
+ * @param word - The word to count the bits of
+ */
+export function countBits(word: number): number {
+    /* eslint-disable no-bitwise */
+    let bits = word - ((word >>> 1) & 0x55555555);
+    bits = (bits & 0x33333333) + ((bits >>> 2) & 0x33333333);
+    return (((bits + (bits >>> 4)) & 0x0F0F0F0F) * 0x01010101) >>> 24;
+    /* eslint-enable no-bitwise */
+}
@@ -0,0 +1,147 @@
+import {
+    addMaxDepthToNodes,
+    convertArraysToSetsAndUseSplitFunction,
+    createKeyableArraySplitFunction,
+    createKeyableSetSplitFunction,
+    createNodeId,
+    isKeyedCollections,
+    ArrayNode,
+    Arrays,
+    KeyedCollections,
+    KeyedSplitResult,
+    SetNode,
+    Sets,
+    SplitterOptions,
+} from './helpers';
+
+type Concept<T> = {
+    extent: Set<number>;
+    elements: T[];
+    lowerConcepts: Concept<T>[];
+    node?: SetNode<T>;
+};
+
+export function splitIntersectionsLattice<T>(collections: Sets<T>, options?: SplitterOptions<T>): SetNode<T>[];
+export function splitIntersectionsLattice<T>(collections: Arrays<T>, options?: SplitterOptions<T>): ArrayNode<T>[];
+export function splitIntersectionsLattice<T, K>(collections: Map<K, Iterable<T>>, options?: SplitterOptions<T>): KeyedSplitResult<K, SetNode<T>>;
+export function splitIntersectionsLattice<T>(collections: Record<string, T[]>, options?: SplitterOptions<T>): KeyedSplitResult<string, ArrayNode<T>>;
+/**
+ * `SplitFunction` to split the sets or arrays by the formal concept lattice of the set family. The intent of each concept is the intersection of all sets of
+ * its extent, so that the concepts are all distinct intersections of any number of sets and not only pairwise ones. A node is created for each concept
+ * which is the closure of some element, i.e. the intersection of all sets which include the element, and its `rest` are these elements. Concepts
+ * without own elements would only pass through their imports and are not created. The `imports` of each node are its lower neighbours in the lattice,
+ * the biggest intersections shared by more sets.
+ * A `Map` of keyed collections is split into `SetNodes` and a `Record` of keyed arrays into `ArrayNodes`, both returned as `KeyedSplitResult`.
+ * @param collections - The set of sets, array of arrays or keyed collections used to split.
+ * @param options - The options of the split. Concepts with less than `minElements` own elements are not created, their elements stay in `rest` of the roots.
+ */
+export function splitIntersectionsLattice<T, K>(
+    collections: Sets<T> | Arrays<T> | KeyedCollections<K, T>,
+    options: SplitterOptions<T> = {},
+): (SetNode<T> | ArrayNode<T>)[] | KeyedSplitResult<K, SetNode<T>> | KeyedSplitResult<string, ArrayNode<T>> {
+    if (isKeyedCollections(collections)) {
+        if (collections instanceof Map) {
+            return createKeyableSetSplitFunction<T, SetNode<T>>((sets) => splitIntersectionsSetsLattice(sets, options))(collections);
+        }
+        return createKeyableArraySplitFunction<T, ArrayNode<T>>((arrays) => splitIntersectionsArrayLattice(arrays, options))(collections);
+    }
+    if (Array.isArray(collections)) {
+        return splitIntersectionsArrayLattice(collections, options);
+    }
+    return splitIntersectionsSetsLattice(collections, options);
+}
+
+export function splitIntersectionsSetsLattice<T>(sets: Sets<T>, {idFunction = createNodeId, minElements = 1}: SplitterOptions<T> = {}): SetNode<T>[] {
+    const orderedSets = [...sets];
+    const concepts = createConcepts(orderedSets, minElements);
+    // The intents of the lower concepts are included in the intent, so they are created first.
+    [...concepts].reverse().forEach((concept) => {
+        const set: Set<T> = new Set(concept.elements);
+        concept.lowerConcepts.forEach((lowerConcept) => {
+            (<SetNode<T>>lowerConcept.node).set.forEach((element) => set.add(element));
+        });
+        const elements = [...set];
+        concept.node = {
+            set, id: idFunction(elements), rest: new Set(concept.elements), depth: 1, imports: concept.lowerConcepts.map(({node}) => <SetNode<T>>node),
+        };
+    });
+    const rootNodes: SetNode<T>[] = orderedSets.map((set, i) => {
+        const rootConcepts = getUpperConcepts(concepts.filter(({extent}) => extent.has(i)));
+        const rest: Set<T> = new Set(set);
+        rootConcepts.forEach(({node}) => {
+            (<SetNode<T>>node).set.forEach((element) => rest.delete(element));
+        });
+        return {
+            set,
+            id: idFunction([...set]),
+            rest,
+            depth: 0,
+            imports: rootConcepts.map(({node}) => <SetNode<T>>node),
+        };
+    });
+    const setNodes = [...rootNodes, ...concepts.map(({node}) => <SetNode<T>>node)];
+    addMaxDepthToNodes(setNodes);
+    return setNodes;
+}
+
+export function splitIntersectionsArrayLattice<T>(arrays: Arrays<T>, options: SplitterOptions<T> = {}): ArrayNode<T>[] {
+    return convertArraysToSetsAndUseSplitFunction(arrays, (sets) => splitIntersectionsSetsLattice(sets, options));
+}
+
+/**
+ * Creates the concepts of the elements which are included in more than one set, sorted by the size of their intents, the biggest first. The lower concepts
+ * of each concept are its lower neighbours, the concepts with a bigger extent which are not lower than any other of them.
+ * @param sets - The sets to split
+ * @param minElements - The minimum number of own elements of a concept
+ */
+function createConcepts<T>(sets: Set<T>[], minElements: number): Concept<T>[] {
+    const extentMap: Map<T, number[]> = new Map();
+    sets.forEach((set, i) => {
+        set.forEach((element) => {
+            const extent = extentMap.get(element);
+            if (extent) {
+                extent.push(i);
+            } else {
+                extentMap.set(element, [i]);
+            }
+        });
+    });
+    const conceptMap: Map<string, Concept<T>> = new Map();
+    extentMap.forEach((extent, element) => {
+        if (extent.length < 2) {
+            return;
+        }
+        const signature = extent.join(',');
+        const concept = conceptMap.get(signature);
+        if (concept) {
+            concept.elements.push(element);
+        } else {
+            conceptMap.set(signature, { extent: new Set(extent), elements: [element], lowerConcepts: [] });
+        }
+    });
+    const concepts = [...conceptMap.values()].filter(({elements}) => elements.length >= minElements);
+    const intentSizes: Map<Concept<T>, number> = new Map(concepts.map((concept) => [
+        concept,
+        concepts.filter((otherConcept) => isLowerConcept(otherConcept, concept) || otherConcept === concept)
+            .reduce((size, {elements}) => size + elements.length, 0),
+    ]));
+    concepts.sort((a, b) => <number>intentSizes.get(b) - <number>intentSizes.get(a));
+    concepts.forEach((concept) => {
+        concept.lowerConcepts = getUpperConcepts(concepts.filter((otherConcept) => isLowerConcept(otherConcept, concept)));
+    });
+    return concepts;
+}
+
+/**
+ * Returns true when the intent of the first concept is a proper subset of the intent of the second concept, which is when its extent is a proper superset.
+ */
+function isLowerConcept<T>(concept: Concept<T>, upperConcept: Concept<T>): boolean {
+    return concept.extent.size > upperConcept.extent.size && [...upperConcept.extent].every((index) => concept.extent.has(index));
+}
+
+/**
+ * Returns the concepts which are not lower than any other of the concepts.
+ */
+function getUpperConcepts<T>(concepts: Concept<T>[]): Concept<T>[] {
+    return concepts.filter((concept) => !concepts.some((otherConcept) => isLowerConcept(concept, otherConcept)));
+}
@@ -0,0 +1,55 @@
+import {
+    convertArraysToSetsAndUseSplitFunction,
+    createKeyableArraySplitFunction,
+    createKeyableSetSplitFunction,
+    KeyableArrayIntersectionsSplitFunction,
+    KeyableSetIntersectionsSplitFunction,
+    ArrayNode,
+    Arrays,
+    SetNode,
+    Sets,
+} from './helpers';
+import { CostSplitterOptions, splitSetsByCost } from './cost-split';
+
+/**
+ * @typedef CostModel
+ * @property requestCost - The fixed cost of each node fetched by a root, e.g. the overhead of a request in bytes.
+ * @property elementCost - The cost of each element or unit of `elementWeight` of a node, default is 1. The elements of a node are only counted once,
+ * regardless of how many roots fetch the node.
+ */
+export type CostModel = {
+    requestCost: number;
+    elementCost?: number;
+};
+
+/**
+ * Class to split the intersections of sets by an explicit cost model. The total cost is the cost of the elements of all nodes plus the fixed cost of each
+ * node fetched by each root. An intersection is split out only when the total cost decreases, the intersection with the biggest decrease first.
+ */
+export class CostIntersectionsSplitter<T> {
+    /**
+     * @param costModel - The costs of the nodes and elements
+     * @param options - The options of the split. With an `elementWeight` the `elementCost` is the cost per unit of the weight, e.g. per byte.
+     */
+    constructor(
+        private costModel: CostModel,
+        private options: CostSplitterOptions<T> = {},
+    ) {}
+
+    /**
+     * `SplitFunction` to pull out the intersecting elements. When keyed collections are provided a `KeyedSplitResult` is returned.
+     * @param sets - The set of sets or the keyed collections.
+     */
+    public splitSets: KeyableSetIntersectionsSplitFunction<T, SetNode<T>> = createKeyableSetSplitFunction((sets: Sets<T>): SetNode<T>[] => {
+        const { requestCost, elementCost = 1 } = this.costModel;
+        return splitSetsByCost(sets, (restWeight, rootIndices) => restWeight * elementCost + rootIndices.length * requestCost, this.options);
+    });
+
+    /**
+     * `SplitFunction` to pull out the intersecting elements. When keyed collections are provided a `KeyedSplitResult` is returned.
+     * @param arrays - The array of arrays or the keyed collections.
+     */
+    public splitArrays: KeyableArrayIntersectionsSplitFunction<T, ArrayNode<T>> = createKeyableArraySplitFunction((
+        arrays: Arrays<T>,
+    ): ArrayNode<T>[] => convertArraysToSetsAndUseSplitFunction(arrays, this.splitSets));
+}
@@ -0,0 +1,157 @@
+import {
+    cloneSet,
+    createNodeId,
+    getElementsWeight,
+    intersectSets,
+    IntersectionsSplitterOptions,
+    NodeIdFunction,
+    SetNode,
+    Sets,
+} from './helpers';
+
+/**
+ * @typedef NodeCostFunction - Function to calculate the cost of a single node. The cost splitters create a node only when it lowers the sum of the costs
+ * of all nodes.
+ * @param restWeight - The weight of the elements in `rest` of the node, which is the number of elements when no `elementWeight` is provided.
+ * @param rootIndices - The ascending indices of the root nodes which load the node, directly or through imports.
+ */
+export type NodeCostFunction = (restWeight: number, rootIndices: number[]) => number;
+
+/**
+ * The options of the splitters which split by the costs of the nodes. The option `engine` is not used by these splitters.
+ * @typedef CostSplitterOptions
+ */
+export type CostSplitterOptions<T> = Omit<IntersectionsSplitterOptions<T>, 'engine'>;
+
+type CostNode<T> = {
+    node: SetNode<T>;
+    restWeight: number;
+    rootIndices: number[];
+};
+
+type CostIntersection<T> = {
+    intersection: Set<T>;
+    intersectionWeight: number;
+    includingNodes: CostNode<T>[];
+    costDelta: number;
+};
+
+/**
+ * Splits the sets greedily by the costs of the nodes. In each step the pairwise intersections of all current nodes are the candidates. The candidate which
+ * lowers the sum of the costs of all nodes the most is split out of every node which includes it. The split stops when no candidate lowers the costs.
+ * @param sets - The set of sets to split
+ * @param nodeCost - The function to calculate the cost of each node
+ * @param options - The options of the split
+ */
+export function splitSetsByCost<T>(sets: Sets<T>, nodeCost: NodeCostFunction, options: CostSplitterOptions<T> = {}): SetNode<T>[] {
+    const {
+        idFunction = createNodeId,
+        elementWeight,
+        minElements = 1,
+        minWeight = 0,
+        maxDepth = Infinity,
+        maxGeneratedNodes = Infinity,
+    } = options;
+    const costNodes: CostNode<T>[] = [...sets].map((set, i) => ({
+        node: {
+            set, id: idFunction([...set]), rest: cloneSet(set), depth: 0, imports: [],
+        },
+        restWeight: getElementsWeight(set, elementWeight),
+        rootIndices: [i],
+    }));
+    const elementIndices: Map<T, number> = new Map();
+    costNodes.forEach(({node}) => {
+        node.set.forEach((element) => {
+            if (!elementIndices.has(element)) {
+                elementIndices.set(element, elementIndices.size);
+            }
+        });
+    });
+    let generatedNodes = 0;
+    while (generatedNodes < maxGeneratedNodes) {
+        const splittableNodes = costNodes.filter(({node}) => node.depth < maxDepth && node.rest.size > 0);
+        const checkedIntersections: Set<string> = new Set();
+        let cheapestIntersection: CostIntersection<T> | undefined;
+        splittableNodes.forEach((costNode1, i) => {
+            splittableNodes.slice(i + 1).forEach((costNode2) => {
+                const intersection = intersectSets(costNode1.node.rest, costNode2.node.rest);
+                if (intersection.size === 0 || intersection.size < minElements) {
+                    return;
+                }
+                const intersectionKey = [...intersection].map((element) => <number>elementIndices.get(element)).sort((a, b) => a - b).join(',');
+                if (checkedIntersections.has(intersectionKey)) {
+                    return;
+                }
+                checkedIntersections.add(intersectionKey);
+                const intersectionWeight = getElementsWeight(intersection, elementWeight);
+                if (intersectionWeight < minWeight) {
+                    return;
+                }
+                const includingNodes = splittableNodes.filter(({node}) => [...intersection].every((element) => node.rest.has(element)));
+                const costDelta = getCostDelta(intersectionWeight, includingNodes, nodeCost);
+                if (costDelta < (cheapestIntersection ? cheapestIntersection.costDelta : 0)) {
+                    cheapestIntersection = {
+                        intersection, intersectionWeight, includingNodes, costDelta,
+                    };
+                }
+            });
+        });
+        if (!cheapestIntersection) {
+            break;
+        }
+        costNodes.push(splitIntersection(cheapestIntersection, idFunction));
+        generatedNodes++;
+    }
+    return costNodes.map(({node}) => node);
+}
+
+/**
+ * Returns the change of the sum of the costs of all nodes, when the intersection is split out of the nodes which include it.
+ * @param intersectionWeight - The weight of the intersection
+ * @param includingNodes - The nodes whose `rest` includes the intersection
+ * @param nodeCost - The function to calculate the cost of each node
+ */
+function getCostDelta<T>(intersectionWeight: number, includingNodes: CostNode<T>[], nodeCost: NodeCostFunction): number {
+    const rootIndices = getRootIndices(includingNodes);
+    return includingNodes.reduce(
+        (costDelta, {restWeight, rootIndices: nodeRootIndices}) => costDelta
+            + nodeCost(restWeight - intersectionWeight, nodeRootIndices)
+            - nodeCost(restWeight, nodeRootIndices),
+        nodeCost(intersectionWeight, rootIndices),
+    );
+}
+
+function getRootIndices<T>(costNodes: CostNode<T>[]): number[] {
+    return [...new Set(costNodes.flatMap(({rootIndices}) => rootIndices))].sort((a, b) => a - b);
+}
+
+/**
+ * Creates the node of the intersection and removes the elements of the intersection from the nodes which include it.
+ * @param cheapestIntersection - The intersection to split
+ * @param idFunction - The function to create the id of the new node
+ */
+function splitIntersection<T>(
+    {intersection, intersectionWeight, includingNodes}: CostIntersection<T>,
+    idFunction: NodeIdFunction<T>,
+): CostNode<T> {
+    const elements = [...intersection];
+    const intersectingNode: SetNode<T> = {
+        set: intersection,
+        id: idFunction(elements),
+        rest: new Set(elements),
+        depth: Math.max(...includingNodes.map(({node}) => node.depth)) + 1,
+        imports: [],
+    };
+    includingNodes.forEach((costNode) => {
+        elements.forEach((element) => {
+            costNode.node.rest.delete(element);
+        });
+        costNode.node.imports.push(intersectingNode);
+        costNode.restWeight -= intersectionWeight;
+    });
+    return {
+        node: intersectingNode,
+        restWeight: intersectionWeight,
+        rootIndices: getRootIndices(includingNodes),
+    };
+}
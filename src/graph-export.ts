@@ -0,0 +1,97 @@
+import { ArrayNode, SetNode } from './helpers';
+
+/**
+ * @typedef GraphExportOptions
+ * @property maxLabelElements - The maximum number of elements of `rest` shown in the label of a node, default is 5.
+ * @property formatElement - Function to convert an element to the text shown in the label, default is `String`.
+ */
+export type GraphExportOptions<T> = {
+    maxLabelElements?: number;
+    formatElement?: (element: T) => string;
+};
+
+type GraphNode = {
+    name: string;
+    labelLines: string[];
+    isRoot: boolean;
+    imports: string[];
+};
+
+/**
+ * Exports SetNodes or ArrayNodes as a directed graph in the DOT language of Graphviz. Root nodes are drawn as bold boxes, generated nodes as ellipses.
+ * The edges point from a node to the nodes it imports.
+ * @param nodes - The SetNodes or ArrayNodes to export
+ * @param options - The options of the export
+ */
+export function nodesToDot<T>(nodes: SetNode<T>[] | ArrayNode<T>[], options: GraphExportOptions<T> = {}): string {
+    const graphNodes = createGraphNodes(nodes, options);
+    const escape = (text: string) => text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+    return [
+        'digraph nodes {',
+        '    node [shape=ellipse];',
+        ...graphNodes.map(({name, labelLines, isRoot}) => {
+            const label = `"${labelLines.map(escape).join('\\n')}"`;
+            return isRoot ? `    ${name} [label=${label}, shape=box, style=bold];` : `    ${name} [label=${label}];`;
+        }),
+        ...graphNodes.flatMap(({name, imports}) => imports.map((importedName) => `    ${name} -> ${importedName};`)),
+        '}',
+    ].join('\n');
+}
+
+/**
+ * Exports SetNodes or ArrayNodes as a flowchart in the Mermaid syntax. Root nodes are drawn as rectangles with the class `root`, generated nodes as
+ * stadiums. The edges point from a node to the nodes it imports.
+ * @param nodes - The SetNodes or ArrayNodes to export
+ * @param options - The options of the export
+ */
+export function nodesToMermaid<T>(nodes: SetNode<T>[] | ArrayNode<T>[], options: GraphExportOptions<T> = {}): string {
+    const graphNodes = createGraphNodes(nodes, options);
+    const escape = (text: string) => text.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+    const rootNames = graphNodes.filter(({isRoot}) => isRoot).map(({name}) => name);
+    return [
+        'flowchart TD',
+        ...graphNodes.map(({name, labelLines, isRoot}) => {
+            const label = `"${labelLines.map(escape).join('<br/>')}"`;
+            return isRoot ? `    ${name}[${label}]` : `    ${name}([${label}])`;
+        }),
+        ...graphNodes.flatMap(({name, imports}) => imports.map((importedName) => `    ${name} --> ${importedName}`)),
+        '    classDef root stroke-width:3px;',
+        ...(rootNames.length > 0 ? [`    class ${rootNames.join(',')} root;`] : []),
+    ].join('\n');
+}
+
+/**
+ * Function to create the names, labels and edges of the nodes for the export.
+ * @param nodes - The SetNodes or ArrayNodes to export
+ * @param options - The options of the export
+ */
+function createGraphNodes<T>(
+    nodes: SetNode<T>[] | ArrayNode<T>[],
+    {maxLabelElements = 5, formatElement = String}: GraphExportOptions<T>,
+): GraphNode[] {
+    const allNodes: (SetNode<T> | ArrayNode<T>)[] = nodes;
+    const nodeNames: Map<SetNode<T> | ArrayNode<T>, string> = new Map(allNodes.map((node, i) => [node, `n${i}`]));
+    return allNodes.map((node) => {
+        const rest = [...node.rest];
+        const shownElements = rest.slice(0, maxLabelElements).map((element) => formatElement(element)).join(', ');
+        const labelLines = [
+            rest.length > maxLabelElements ? `${shownElements}, … (+${rest.length - maxLabelElements})` : shownElements,
+            `depth ${node.depth}`,
+        ];
+        if ('key' in node) {
+            labelLines.unshift(String((<{ key: unknown }><unknown>node).key));
+        }
+        return {
+            name: <string>nodeNames.get(node),
+            labelLines,
+            isRoot: node.depth === 0,
+            imports: (<(SetNode<T> | ArrayNode<T>)[]>node.imports).map((importedNode) => {
+                const importedName = nodeNames.get(importedNode);
+                if (importedName === undefined) {
+                    throw new Error(`Imported node ${importedNode.id} is not part of the exported nodes`);
+                }
+                return importedName;
+            }),
+        };
+    });
+}
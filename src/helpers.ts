@@ -8,16 +8,76 @@ export type Arrays<T> = T[][];
 
 export type Sets<T> = Set<Set<T>>;
 
+/**
+ * @typedef NodeIdFunction - Function to create a deterministic id of a node from its elements. The id must not depend on the order of the elements.
+ */
+export type NodeIdFunction<T> = (elements: T[]) => string;
+
+/**
+ * @typedef ElementWeightFunction - Function which returns the weight of an element, e.g. its size in bytes. The weight must not be negative.
+ */
+export type ElementWeightFunction<T> = (element: T) => number;
+
+/**
+ * @typedef RootFrequencyFunction - Function which returns how often a root is visited, e.g. the number of page views of a route. The frequencies of all
+ * roots are divided by their sum to get the probability of each root.
+ * @param set - The elements of the root
+ * @param index - The index of the root in the split sets or arrays
+ * @param key - The key of the root when keyed collections are split, otherwise `undefined`
+ */
+export type RootFrequencyFunction<T> = (set: Set<T>, index: number, key: unknown) => number;
+
+/**
+ * @typedef SplitterOptions
+ * @property idFunction - The function to create the `id` of each node, default is `createNodeId`.
+ * @property minElements - The minimum number of elements of an intersection to create a new node, default is 1. The elements of smaller intersections
+ * stay in `rest` of each node which includes them.
+ */
+export type SplitterOptions<T> = {
+    idFunction?: NodeIdFunction<T>;
+    minElements?: number;
+};
+
+/**
+ * The options of the classes `BiggestIntersectionsSplitter` and `WeightedIntersectionsSplitter`.
+ * @typedef IntersectionsSplitterOptions
+ * @property elementWeight - The weight of each element. When provided, the size of an intersection is the sum of the weights of its elements instead of
+ * the number of its elements.
+ * @property minWeight - The minimum weight of an intersection to create a new node, default is 0. The weight is the number of elements when no
+ * `elementWeight` is provided.
+ * @property maxDepth - The maximum depth of the created nodes, default is `Infinity`. No intersections are split out of nodes with this depth, the
+ * elements which these nodes share with other nodes stay in their `rest`.
+ * @property maxGeneratedNodes - The maximum number of created nodes, default is `Infinity`. The intersections with the highest weight are split first, the
+ * elements of the remaining intersections stay in `rest` of each node which includes them.
+ * @property engine - The engine to intersect the sets or arrays, default is `'default'`. The `'bitset'` engine represents each set or array as a bitset
+ * and can be much faster for many sets with thousands of elements. The created nodes are the same as with the default engine. Arrays which include equal
+ * elements are always split by the default engine of `BiggestIntersectionsSplitter`.
+ */
+export type IntersectionsSplitterOptions<T> = SplitterOptions<T> & {
+    elementWeight?: ElementWeightFunction<T>;
+    minWeight?: number;
+    maxDepth?: number;
+    maxGeneratedNodes?: number;
+    engine?: IntersectionEngine;
+};
+
+/**
+ * @typedef IntersectionEngine - The engine used by the classes to intersect the sets or arrays.
+ */
+export type IntersectionEngine = 'default' | 'bitset';
+
 /**
  * The shape of the returned object by the split function
  * @typedef SetNode
  * @property set - The original set provided to the split function, or the set created during the split operations
+ * @property id - The id created from the elements in `set`, which does not change when the order of the sets changes.
  * @property rest - Elements which have no further intersection with any other set.
  * @property imports - The list of `SetNode` which took elements from this `SetNode`.
  * @property depth - The maximum distance of this SetNode to a root node.
  */
 export type SetNode<T> = {
     set: Set<T>;
+    id: string;
     rest: Set<T>;
     imports: SetNode<T>[];
     depth: number;
@@ -27,22 +87,141 @@ export type SetNode<T> = {
  * The shape of the returned object by the pull function using arrays
  * @typedef ArrayNode
  * @property array - The original array provided to the split function, or the array created during the split operations
+ * @property id - The id created from the elements in `array`, which does not change when the order of the arrays or of its elements changes.
  * @property rest - Elements which have no further intersection with any other `ArrayNode`.
  * @property imports - The list of `ArrayNode` which took elements from this `ArrayNode`.
  * @property depth - The maximum distance of this ArrayNode to a root node.
  */
 export type ArrayNode<T> = {
     array: Array<T>;
+    id: string;
     rest: Array<T>;
     imports: ArrayNode<T>[];
     depth: number;
 };
 
 /**
- * The function which has to be used to define the pulling function in the `LocalizationConfiguration`.
+ * Collections which are identified by a key. The keys of a `Record` are always strings.
+ * @typedef KeyedCollections
+ */
+export type KeyedCollections<K, T> = Map<K, Iterable<T>> | Record<string, T[]>;
+
+/**
+ * A root node carrying the key of the collection it was created from.
+ * @typedef KeyedNode
  */
-export type SetIntersectionsSplitFunction<T, U extends SetNode<T>> = (sets: Sets<T>) => U[];
-export type ArrayIntersectionsSplitFunction<T, U extends ArrayNode<T>> = (arrays: Arrays<T>) => U[];
+export type KeyedNode<K, U> = U & { key: K };
+
+/**
+ * The shape of the returned object by the split functions when keyed collections are used.
+ * @typedef KeyedSplitResult
+ * @property nodes - All nodes in the order the split function returned them.
+ * @property roots - The root nodes by the key of their collection, in the order of the keyed collections.
+ * @property generated - The nodes created during the split operations.
+ */
+export type KeyedSplitResult<K, U> = {
+    nodes: U[];
+    roots: Map<K, KeyedNode<K, U>>;
+    generated: U[];
+};
+
+/**
+ * The function which has to be used to define the pulling function in the `LocalizationConfiguration`. When keyed collections are split, the keys of the
+ * collections are provided in the order of the collections.
+ */
+export type SetIntersectionsSplitFunction<T, U extends SetNode<T>> = (sets: Sets<T>, keys?: unknown[]) => U[];
+export type ArrayIntersectionsSplitFunction<T, U extends ArrayNode<T>> = (arrays: Arrays<T>, keys?: unknown[]) => U[];
+
+/**
+ * A `SetIntersectionsSplitFunction` which also accepts keyed collections and then returns a `KeyedSplitResult`.
+ */
+export type KeyableSetIntersectionsSplitFunction<T, U extends SetNode<T>> = {
+    (sets: Sets<T>): U[];
+    <K>(sets: Map<K, Iterable<T>>): KeyedSplitResult<K, U>;
+    (sets: Record<string, T[]>): KeyedSplitResult<string, U>;
+};
+
+/**
+ * An `ArrayIntersectionsSplitFunction` which also accepts keyed collections and then returns a `KeyedSplitResult`.
+ */
+export type KeyableArrayIntersectionsSplitFunction<T, U extends ArrayNode<T>> = {
+    (arrays: Arrays<T>): U[];
+    <K>(arrays: Map<K, Iterable<T>>): KeyedSplitResult<K, U>;
+    (arrays: Record<string, T[]>): KeyedSplitResult<string, U>;
+};
+
+/**
+ * Creates an id from the elements by hashing the sorted keys of the elements. The key of an element is derived from its type and value, so that e.g. `1`
+ * and `'1'` get different keys and the ids are the same in every run. Objects and symbols have no value which is the same in every run, so that their
+ * nodes need an `idFunction`, e.g. one created by `createNodeIdFunction`.
+ * @param elements - The elements of the node
+ */
+export function createNodeId<T>(elements: T[]): string {
+    return hashString(elements.map(getElementKey).sort().join('\x00'));
+}
+
+/**
+ * Returns the key of a primitive element, which is distinct for all elements which are distinct in a `Set`.
+ */
+function getElementKey(element: unknown): string {
+    if ((typeof element === 'object' && element !== null) || typeof element === 'function' || typeof element === 'symbol') {
+        throw new Error(`createNodeId only supports primitive elements, provide an idFunction for elements of the type ${typeof element}`);
+    }
+    return `${typeof element}:${typeof element === 'string' ? JSON.stringify(element) : String(element)}`;
+}
+
+/**
+ * Returns a `NodeIdFunction` which hashes the primitive created by a joiner, e.g. the joiner of `MapFunctions`.
+ * @param joiner - Function which maps the elements of a node bijectively to a primitive type regardless of their order.
+ */
+export function createNodeIdFunction<T>(joiner: (elements: T[]) => PrimitiveType): NodeIdFunction<T> {
+    return (elements: T[]) => hashString(String(joiner([...elements])));
+}
+
+/**
+ * Returns a 64 bit hash of a string as hexadecimal string (cyrb53 with two 32 bit halves).
+ * @param str - The string to hash
+ */
+function hashString(str: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < str.length; i++) {
+        const charCode = str.charCodeAt(i);
+        h1 = Math.imul(h1 ^ charCode, 2654435761); // eslint-disable-line no-bitwise
+        h2 = Math.imul(h2 ^ charCode, 1597334677); // eslint-disable-line no-bitwise
+    }
+    /* eslint-disable no-bitwise */
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (h2 >>> 0).toString(16).padStart(8, '0') + (h1 >>> 0).toString(16).padStart(8, '0');
+    /* eslint-enable no-bitwise */
+}
+
+/**
+ * Returns the sum of the weights of the elements or the number of elements when no `ElementWeightFunction` is provided.
+ * @param elements - The elements to weight
+ * @param elementWeight - The weight of each element
+ */
+export function getElementsWeight<T>(elements: T[] | Set<T>, elementWeight?: ElementWeightFunction<T>): number {
+    if (!elementWeight) {
+        return Array.isArray(elements) ? elements.length : elements.size;
+    }
+    let weight = 0;
+    elements.forEach((element: T) => {
+        weight += elementWeight(element);
+    });
+    return weight;
+}
+
+/**
+ * Returns the expected number of downloads of a node per visit. The node is downloaded in a session, when at least one of the visits of the session loads
+ * it, and is cached for the other visits.
+ * @param probability - The probability that a single visit loads the node
+ * @param visitsPerSession - The number of visits per session
+ */
+export function getExpectedDownloadsPerVisit(probability: number, visitsPerSession: number): number {
+    return (1 - (1 - Math.min(Math.max(probability, 0), 1)) ** visitsPerSession) / visitsPerSession;
+}
 
 /**
  * Returns a shallow copy of a set.
@@ -98,13 +277,15 @@ export function addMaxDepthToNodes<T, U extends ArrayNode<T> | SetNode<T>>(array
  * Helper function to use sets as input for an ArrayIntersectionSplitFunction.
  * @param sets - The set of sets to split
  * @param arrayIntersectionSplitFunction - The ArrayIntersectionSplitFunction to use
+ * @param keys - The keys of the sets, when keyed collections are split
  */
 export function convertSetsToArraysAndUseSplitFunction<T, U extends ArrayNode<T>>(
     sets: Sets<T>,
     arrayIntersectionSplitFunction: ArrayIntersectionsSplitFunction<T, U>,
+    keys?: unknown[],
 ): SetNode<T>[] {
     const { arrays, arrayToSetMap } = mapSetsToArrays(sets);
-    const arrayNodes = arrayIntersectionSplitFunction(arrays);
+    const arrayNodes = arrayIntersectionSplitFunction(arrays, keys);
     return mapArraysToSetNodes(arrayNodes, arrayToSetMap);
 }
 
@@ -112,13 +293,15 @@ export function convertSetsToArraysAndUseSplitFunction<T, U extends ArrayNode<T>
  * Helper function to use arrays as input for an SetIntersectionsSplitFunction
  * @param arrays - The array of arrays to split
  * @param setIntersectionSplitFunction - The SetIntersectionSplitFunction to use
+ * @param keys - The keys of the arrays, when keyed collections are split
  */
 export function convertArraysToSetsAndUseSplitFunction<T, U extends SetNode<T>>(
     arrays: Arrays<T>,
     setIntersectionSplitFunction: SetIntersectionsSplitFunction<T, U>,
+    keys?: unknown[],
 ): ArrayNode<T>[] {
     const { sets, setToArrayMap } = mapArraysToSets(arrays);
-    const setNodes = setIntersectionSplitFunction(sets);
+    const setNodes = setIntersectionSplitFunction(sets, keys);
     return mapSetsToArrayNodes(setNodes, setToArrayMap);
 }
 
@@ -176,6 +359,7 @@ function mapSetsToArrayNodes<T>(setNodes: SetNode<T>[], setToArrayMap: Map<Set<T
         }
         const arrayNode: ArrayNode<T> = {
             array: <Array<T>>setToArrayMap.get(setNode.set),
+            id: setNode.id,
             rest: [...setNode.rest],
             imports: setNode.imports.map((sNode) => <ArrayNode<T>>arrayNodes.find((aNode) => setToArrayMap.get(sNode.set) === aNode.array)),
             depth: setNode.depth,
@@ -200,6 +384,7 @@ function mapArraysToSetNodes<T>(arrayNodes: ArrayNode<T>[], arrayToSetMap: Map<T
         }
         const setNode: SetNode<T> = {
             set: <Set<T>>arrayToSetMap.get(arrayNode.array),
+            id: arrayNode.id,
             rest: new Set(arrayNode.rest),
             imports: arrayNode.imports.map((aNode) => <SetNode<T>>setNodes.find((sNode) => arrayToSetMap.get(aNode.array) === sNode.set)),
             depth: arrayNode.depth,
@@ -209,3 +394,91 @@ function mapArraysToSetNodes<T>(arrayNodes: ArrayNode<T>[], arrayToSetMap: Map<T
     setNodes.reverse();
     return setNodes;
 }
+
+/**
+ * Returns true when the collections are keyed collections and not a set of sets or an array of arrays.
+ * @param collections - The collections to check
+ */
+export function isKeyedCollections<K, T>(collections: Sets<T> | Arrays<T> | KeyedCollections<K, T>): collections is KeyedCollections<K, T> {
+    return collections instanceof Map || (!(collections instanceof Set) && !Array.isArray(collections));
+}
+
+/**
+ * Helper function to make a SetIntersectionsSplitFunction accept also keyed collections. The keys of keyed collections are provided to the split function,
+ * the keys provided together with a set of sets, e.g. by `convertArraysToSetsAndUseSplitFunction`, are passed on.
+ * @param setIntersectionSplitFunction - The SetIntersectionSplitFunction to use
+ */
+export function createKeyableSetSplitFunction<T, U extends SetNode<T>>(
+    setIntersectionSplitFunction: SetIntersectionsSplitFunction<T, U>,
+): KeyableSetIntersectionsSplitFunction<T, U> {
+    return <KeyableSetIntersectionsSplitFunction<T, U>>(<K>(sets: Sets<T> | KeyedCollections<K, T>, keys?: unknown[]) => {
+        if (!isKeyedCollections(sets)) {
+            return setIntersectionSplitFunction(sets, keys);
+        }
+        return splitKeyedCollections(
+            sets,
+            (elements) => new Set(elements),
+            (collections, rootKeys) => setIntersectionSplitFunction(new Set(collections), rootKeys),
+            (setNode) => setNode.set,
+        );
+    });
+}
+
+/**
+ * Helper function to make an ArrayIntersectionsSplitFunction accept also keyed collections. The keys of keyed collections are provided to the split
+ * function, the keys provided together with an array of arrays, e.g. by `convertSetsToArraysAndUseSplitFunction`, are passed on.
+ * @param arrayIntersectionSplitFunction - The ArrayIntersectionSplitFunction to use
+ */
+export function createKeyableArraySplitFunction<T, U extends ArrayNode<T>>(
+    arrayIntersectionSplitFunction: ArrayIntersectionsSplitFunction<T, U>,
+): KeyableArrayIntersectionsSplitFunction<T, U> {
+    return <KeyableArrayIntersectionsSplitFunction<T, U>>(<K>(arrays: Arrays<T> | KeyedCollections<K, T>, keys?: unknown[]) => {
+        if (!isKeyedCollections(arrays)) {
+            return arrayIntersectionSplitFunction(arrays, keys);
+        }
+        return splitKeyedCollections(
+            arrays,
+            (elements) => [...elements],
+            arrayIntersectionSplitFunction,
+            (arrayNode) => arrayNode.array,
+        );
+    });
+}
+
+/**
+ * Function to split keyed collections. Each collection is copied, so that the root nodes can be found by the reference of their collection even when
+ * the same collection is provided under several keys.
+ * @param keyedCollections - The keyed collections to split
+ * @param createCollection - Function to create the collection which is provided to the split function
+ * @param splitFunction - Function to split the created collections, which gets the keys in the order of the collections
+ * @param getCollection - Function to get the collection from a node
+ */
+function splitKeyedCollections<K, T, C extends Set<T> | T[], U extends SetNode<T> | ArrayNode<T>>(
+    keyedCollections: KeyedCollections<K, T>,
+    createCollection: (elements: Iterable<T>) => C,
+    splitFunction: (collections: C[], keys: K[]) => U[],
+    getCollection: (node: U) => C,
+): KeyedSplitResult<K, U> {
+    const entries = keyedCollections instanceof Map
+        ? [...keyedCollections.entries()]
+        : <[K, T[]][]><unknown>Object.entries(keyedCollections);
+    const collectionToKeyMap: Map<C, K> = new Map(entries.map(([key, elements]) => [createCollection(elements), key]));
+    const nodes = splitFunction([...collectionToKeyMap.keys()], [...collectionToKeyMap.values()]);
+    const rootNodes: Map<C, KeyedNode<K, U>> = new Map();
+    const generated: U[] = [];
+    nodes.forEach((node) => {
+        const collection = getCollection(node);
+        if (collectionToKeyMap.has(collection) && !rootNodes.has(collection)) {
+            const keyedNode = <KeyedNode<K, U>>node;
+            keyedNode.key = <K>collectionToKeyMap.get(collection);
+            rootNodes.set(collection, keyedNode);
+        } else {
+            generated.push(node);
+        }
+    });
+    const roots: Map<K, KeyedNode<K, U>> = new Map();
+    collectionToKeyMap.forEach((key, collection) => {
+        roots.set(key, <KeyedNode<K, U>>rootNodes.get(collection));
+    });
+    return { nodes, roots, generated };
+}
@@ -3,3 +3,17 @@ export * from './biggest-intersections-splitter';
 export * from './node-metrics';
 export * from './shallow-intersections-splitter';
 export * from './helpers';
+export * from './node-serialization';
+export * from './graph-export';
+export * from './node-validation';
+export * from './bitset';
+export * from './cost-split';
+export * from './traffic-intersections-splitter';
+export * from './cost-intersections-splitter';
+export * from './optimal-intersections-splitter';
+export * from './concept-lattice-splitter';
+export * from './update-split';
+export * from './split-diff';
+export * from './node-optimization';
+export * from './over-fetch-intersections-splitter';
+export * from './splitter-comparison';
@@ -1,23 +1,46 @@
-import { ArrayNode, SetNode } from './helpers';
+import {
+    getElementsWeight,
+    getExpectedDownloadsPerVisit,
+    ArrayNode,
+    ElementWeightFunction,
+    RootFrequencyFunction,
+    SetNode,
+} from './helpers';
 
 /**
+ * The metrics of the imports from a root node, when each node reachable by more than one path is counted once for every path.
+ * @typedef TreeMetric
+ * @property leaves - The number of leaves of all paths
+ * @property imports - The number of imports of all paths
+ * @property nodes - The number of nodes of all paths
+ * @property avgDepth - The average depth of the leaves of all paths, 0 without leaves
+ */
+export type TreeMetric = {
+    leaves: number;
+    imports: number;
+    nodes: number;
+    avgDepth: number;
+};
+
+/**
+ * The metrics of the distinct nodes which are reachable from a root node. The depth of a node is its longest distance from the root node.
  * @typedef NodeMetric
  * @property maxDepth - The maximum depth of imports from the root node
- * @property leaves - The number of leaves this root node has
- * @property imports - The number of imports all imported files have together
- * @property nodes - The number of nodes which are connected to the root node
- * @property allNodes - Array of all elements from `rest`, used for verification
- * @property avgDepth - The average depth of imports from the root node
+ * @property leaves - The number of distinct leaves this root node has
+ * @property imports - The number of imports all reachable nodes have together
+ * @property nodes - The number of distinct nodes which are connected to the root node, including the root node
+ * @property avgDepth - The average depth of the leaves, 0 without leaves
+ * @property overFetch - The number or weight of the elements loaded by the root node which are not in its `set` or `array`
+ * @property tree - The metrics when every node is counted once for each path from the root node
  */
-type NodeMetric<U> = {
+type NodeMetric = {
     maxDepth: number;
     leaves: number;
     imports: number;
     nodes: number;
-    allNodes?: U[];
-    avgDepth?: number;
-    avgDepthSum?: number;
-    avgMaxDepth?: number;
+    avgDepth: number;
+    overFetch: number;
+    tree: TreeMetric;
 };
 
 /**
@@ -27,125 +50,313 @@ type NodeMetric<U> = {
  * @property avgDepth - The average depth of imports from all root nodes
  * @property avgLeaves - The average number of leaves
  * @property avgNodes - The average number of nodes connected to a root node
+ * @property tree - The averages of the leaves, imports, nodes and depths when every node is counted once for each path from a root node
  * @property generatedNodes - The number of nodes generated
  * @property rootNodes - The number of root nodes
  * @property elementsCount - The number of elements of all root nodes
  * @property uniqueElements - The number of unique elements of all root nodes
+ * @property overFetch - The number of elements loaded by all root nodes which are not in their `set` or `array`, the weight of these elements when an
+ * `elementWeight` is provided
+ * @property elementsWeight - The weight of the elements of all root nodes, only when an `elementWeight` is provided
+ * @property uniqueElementsWeight - The weight of the unique elements of all root nodes, only when an `elementWeight` is provided
+ * @property expectedPayload - The expected weight of the elements downloaded per visit, only when a `rootFrequency` is provided
+ * @property expectedRequests - The expected number of downloaded nodes per visit, only when a `rootFrequency` is provided
+ * @property storedElements - The number of elements in `rest` of all nodes, only with `extendedMetrics`
+ * @property storedElementsWeight - The weight of the elements in `rest` of all nodes, only with `extendedMetrics` and an `elementWeight`
+ * @property duplicationFactor - The stored elements divided by the unique elements, 1 without elements, only with `extendedMetrics`
+ * @property requestsPerRoot - The percentiles of the number of nodes each root node has to fetch, only with `extendedMetrics`
+ * @property elementsPerRoot - The percentiles of the number or weight of the elements each root node loads, only with `extendedMetrics`
+ * @property worstRoots - The root nodes with the most requests and with the most loaded elements, only with `extendedMetrics`
+ * @property perRoot - The metrics of each root node in the order of the root nodes, only with `extendedMetrics`
  */
-type Metric = {
+export type Metric<U = unknown> = {
     maxDepth: number;
     avgMaxDepth: number;
     avgDepth: number;
     avgLeaves: number;
     avgImports: number;
     avgNodes: number;
+    tree: { avgLeaves: number, avgImports: number, avgNodes: number, avgDepth: number };
     generatedNodes: number;
     rootNodes: number;
     elementsCount: number;
     uniqueElements: number;
+    overFetch: number;
+    elementsWeight?: number;
+    uniqueElementsWeight?: number;
+    expectedPayload?: number;
+    expectedRequests?: number;
+    storedElements?: number;
+    storedElementsWeight?: number;
+    duplicationFactor?: number;
+    requestsPerRoot?: Percentiles;
+    elementsPerRoot?: Percentiles;
+    worstRoots?: { byRequests: U[], byElements: U[] };
+    perRoot?: RootMetric<U>[];
+};
+
+/**
+ * @typedef Percentiles
+ * @property p50 - The median
+ * @property p90 - The value which 90 percent of the values do not exceed
+ * @property max - The maximum
+ */
+export type Percentiles = {
+    p50: number;
+    p90: number;
+    max: number;
+};
+
+/**
+ * The metrics of a single root node.
+ * @typedef RootMetric
+ * @property root - The root node
+ * @property requests - The number of distinct nodes the root node has to fetch, including itself
+ * @property elements - The number or weight of the elements in `rest` of these nodes
+ */
+export type RootMetric<U> = NodeMetric & {
+    root: U;
+    requests: number;
+    elements: number;
+};
+
+/**
+ * @typedef NodeMetricsOptions
+ * @property elementWeight - The weight of each element, e.g. its size in bytes. When provided, the weights of the elements are added to the metrics.
+ * @property rootFrequency - How often each root node is visited. When provided, the expected payload and requests per visit are added to the metrics.
+ * @property visitsPerSession - The number of visits of a user, while the downloaded nodes are cached. Default is 10.
+ * @property extendedMetrics - When true, the stored elements, the duplication, the percentiles of the requests and elements per root, the worst roots and
+ * the metrics of each root are added to the metrics.
+ * @property worstRootsCount - The number of worst roots added with `extendedMetrics`, default is 3.
+ */
+export type NodeMetricsOptions<T> = {
+    elementWeight?: ElementWeightFunction<T>;
+    rootFrequency?: RootFrequencyFunction<T>;
+    visitsPerSession?: number;
+    extendedMetrics?: boolean;
+    worstRootsCount?: number;
 };
 
 /**
  * Class to get metrics to a single ArrayNode or SetNode or an array of these.
  */
 export class GetNodeMetrics<T, U extends Pick<ArrayNode<T>, 'rest' | 'imports' | 'depth'> | Pick<SetNode<T>, 'rest' | 'imports' | 'depth'>> {
+    /**
+     * @param options - The options of the metrics.
+     */
+    constructor(private options: NodeMetricsOptions<T> = {}) {}
+
     /**
      * Method to get metrics to an array of ArrayNodes or SetNodes
      * @param nodeObjects - The set of ArrayNodes or SetNodes to get the metrics
      */
-    public getNodeMetrics(nodeObjects: U[]): Metric {
+    public getNodeMetrics(nodeObjects: U[]): Metric<U> {
         let generatedNodes = 0;
+        const rootNodes: U[] = [];
         let elementsCount = 0;
+        let elementsWeight = 0;
         const allElements: Set<T> = new Set();
         const allMetrics = nodeObjects.filter((nodeObject) => {
             if (nodeObject.depth === 0) {
                 // @ts-ignore
                 const elements: T[] = 'set' in nodeObject ? [...nodeObject.set] : nodeObject.array;
                 elementsCount += elements.length;
+                elementsWeight += getElementsWeight(elements, this.options.elementWeight);
                 elements.forEach((element) => {
                     allElements.add(element);
                 });
+                rootNodes.push(nodeObject);
                 return true;
             }
             generatedNodes += 1;
             return false;
         }).map((nodeObject) => this.getNodeMetric(nodeObject));
-        const cumulativeMetrics = allMetrics.reduce((cumulative, metric) => ({
-            maxDepth: Math.max(cumulative.maxDepth, metric.maxDepth),
-            avgMaxDepth: <number>cumulative.avgMaxDepth + metric.maxDepth,
-            avgDepth: <number>cumulative.avgDepth + <number>metric.avgDepth,
-            leaves: cumulative.leaves + metric.leaves,
-            imports: cumulative.imports + metric.imports,
-            nodes: cumulative.nodes + metric.nodes,
-        }), {
-            maxDepth: 0,
-            avgMaxDepth: 0,
-            avgDepth: 0,
-            leaves: 0,
-            imports: 0,
-            nodes: 0,
-        });
         const rootNodeCount = allMetrics.length;
+        const getAverage = (getValue: (metric: NodeMetric) => number) => (rootNodeCount > 0
+            ? allMetrics.reduce((sum, metric) => sum + getValue(metric), 0) / rootNodeCount
+            : 0);
+        const weights = this.options.elementWeight
+            ? { elementsWeight, uniqueElementsWeight: getElementsWeight(allElements, this.options.elementWeight) }
+            : {};
+        const expectedDownloads = this.options.rootFrequency ? this.getExpectedDownloads(rootNodes, this.options.rootFrequency) : {};
+        const extendedMetrics = this.options.extendedMetrics ? this.getExtendedMetrics(nodeObjects, rootNodes, allMetrics, allElements.size) : {};
         return {
-            maxDepth: cumulativeMetrics.maxDepth,
-            avgMaxDepth: <number>cumulativeMetrics.avgMaxDepth / rootNodeCount,
-            avgDepth: <number>cumulativeMetrics.avgDepth / rootNodeCount,
-            avgLeaves: cumulativeMetrics.leaves / rootNodeCount,
-            avgImports: cumulativeMetrics.imports / rootNodeCount,
-            avgNodes: cumulativeMetrics.nodes / rootNodeCount,
+            maxDepth: Math.max(0, ...allMetrics.map(({maxDepth}) => maxDepth)),
+            avgMaxDepth: getAverage(({maxDepth}) => maxDepth),
+            avgDepth: getAverage(({avgDepth}) => avgDepth),
+            avgLeaves: getAverage(({leaves}) => leaves),
+            avgImports: getAverage(({imports}) => imports),
+            avgNodes: getAverage(({nodes}) => nodes),
+            tree: {
+                avgLeaves: getAverage(({tree}) => tree.leaves),
+                avgImports: getAverage(({tree}) => tree.imports),
+                avgNodes: getAverage(({tree}) => tree.nodes),
+                avgDepth: getAverage(({tree}) => tree.avgDepth),
+            },
             generatedNodes,
             rootNodes: rootNodeCount,
             elementsCount,
             uniqueElements: allElements.size,
+            overFetch: allMetrics.reduce((sum, {overFetch}) => sum + overFetch, 0),
+            ...weights,
+            ...expectedDownloads,
+            ...extendedMetrics,
         };
     }
 
+    /**
+     * Returns the stored elements, the duplication and the metrics of each root node with their percentiles and the worst root nodes.
+     * @param nodeObjects - All nodes
+     * @param rootNodes - The root nodes
+     * @param rootMetrics - The metrics of the root nodes by `getNodeMetric`
+     * @param uniqueElements - The number of unique elements of all root nodes
+     */
+    private getExtendedMetrics(nodeObjects: U[], rootNodes: U[], rootMetrics: NodeMetric[], uniqueElements: number): Partial<Metric<U>> {
+        const { elementWeight, worstRootsCount = 3 } = this.options;
+        const storedElements = nodeObjects.reduce((count, {rest}) => count + [...rest].length, 0);
+        const perRoot: RootMetric<U>[] = rootNodes.map((root, i) => {
+            const reachableNodes = [...this.getReachableNodes(root)];
+            return {
+                ...rootMetrics[i],
+                root,
+                requests: reachableNodes.length,
+                elements: reachableNodes.reduce((sum, node) => sum + getElementsWeight(<T[] | Set<T>>node.rest, elementWeight), 0),
+            };
+        });
+        const getWorstRoots = (metric: 'requests' | 'elements') => [...perRoot].sort((a, b) => b[metric] - a[metric])
+            .slice(0, worstRootsCount).map(({root}) => root);
+        const storedElementsWeight = nodeObjects.reduce((sum, {rest}) => sum + getElementsWeight(<T[] | Set<T>>rest, elementWeight), 0);
+        return {
+            storedElements,
+            ...(elementWeight ? { storedElementsWeight } : {}),
+            duplicationFactor: uniqueElements > 0 ? storedElements / uniqueElements : 1,
+            requestsPerRoot: getPercentiles(perRoot.map(({requests}) => requests)),
+            elementsPerRoot: getPercentiles(perRoot.map(({elements}) => elements)),
+            worstRoots: { byRequests: getWorstRoots('requests'), byElements: getWorstRoots('elements') },
+            perRoot,
+        };
+    }
+
+    /**
+     * Returns the node and all nodes it imports directly or transitively, each node once.
+     * @param node - The node to start from
+     */
+    private getReachableNodes(node: U): Set<U> {
+        const reachableNodes: Set<U> = new Set();
+        const nextNodes = [node];
+        while (nextNodes.length > 0) {
+            const nextNode = <U>nextNodes.pop();
+            if (!reachableNodes.has(nextNode)) {
+                reachableNodes.add(nextNode);
+                nextNodes.push(...<U[]><unknown>nextNode.imports);
+            }
+        }
+        return reachableNodes;
+    }
+
+    /**
+     * Returns the expected payload and number of requests per visit. Each node is downloaded once per session, when at least one visit loads it.
+     * @param rootNodes - The root nodes
+     * @param rootFrequency - The function which returns how often each root node is visited
+     */
+    private getExpectedDownloads(rootNodes: U[], rootFrequency: RootFrequencyFunction<T>): { expectedPayload: number, expectedRequests: number } {
+        const { elementWeight, visitsPerSession = 10 } = this.options;
+        const frequencies = rootNodes.map((rootNode, i) => {
+            const node = <SetNode<T> | ArrayNode<T>><unknown>rootNode;
+            const elements = 'set' in node ? [...node.set] : node.array;
+            return rootFrequency(new Set(elements), i, (<{ key?: unknown }><unknown>rootNode).key);
+        });
+        const frequencySum = frequencies.reduce((sum, frequency) => sum + frequency, 0);
+        const nodeProbabilities: Map<U, number> = new Map();
+        rootNodes.forEach((rootNode, i) => {
+            const probability = frequencySum > 0 ? frequencies[i] / frequencySum : 0;
+            this.getReachableNodes(rootNode).forEach((node) => {
+                nodeProbabilities.set(node, (nodeProbabilities.get(node) || 0) + probability);
+            });
+        });
+        let expectedPayload = 0;
+        let expectedRequests = 0;
+        nodeProbabilities.forEach((probability, node) => {
+            const expectedDownloads = getExpectedDownloadsPerVisit(probability, visitsPerSession);
+            expectedPayload += getElementsWeight(<T[] | Set<T>>node.rest, elementWeight) * expectedDownloads;
+            expectedRequests += expectedDownloads;
+        });
+        return { expectedPayload, expectedRequests };
+    }
+
     /**
      * Method to get metrics to an ArrayNode or a SetNode.
      * @param nodeObj - The ArrayNode or SetNode to get the metrics
      */
-    public getNodeMetric(nodeObj: U): NodeMetric<U> {
-        const metrics: Required<NodeMetric<U>> = {
-            maxDepth: 0,
-            leaves: 0,
-            imports: 0,
-            nodes: 0,
-            allNodes: [],
-            avgDepth: NaN,
-            avgDepthSum: 0,
-            avgMaxDepth: NaN,
-        };
-        const allElements = this.getNodeMetricRecursive(nodeObj, metrics, 0);
+    public getNodeMetric(nodeObj: U): NodeMetric {
+        const depths = this.getMaxDepths(nodeObj);
+        const reachableNodes = [...depths.keys()];
+        const leafDepths = reachableNodes.filter((node) => node !== nodeObj && node.imports.length === 0).map((node) => <number>depths.get(node));
+        const loadedElements: Set<T> = new Set(reachableNodes.flatMap(({rest}) => <T[]>[...rest]));
         // @ts-ignore
         const nodeElements: T[] = 'set' in nodeObj ? [...nodeObj.set] : nodeObj.array;
-        if (nodeElements.some((element) => !allElements.includes(element))) {
+        if (nodeElements.some((element) => !loadedElements.has(element))) {
             throw new Error('Node Object is not valid');
         }
+        const treeMetric = {
+            leaves: 0, imports: 0, nodes: 0, avgDepth: 0,
+        };
+        this.getTreeMetricRecursive(nodeObj, treeMetric, 0);
+        const nodeElementSet = new Set(nodeElements);
         return {
-            maxDepth: metrics.maxDepth,
-            leaves: metrics.leaves,
-            imports: metrics.imports,
-            nodes: metrics.nodes,
-            avgDepth: metrics.avgDepthSum / metrics.leaves,
+            maxDepth: Math.max(...depths.values()),
+            leaves: leafDepths.length,
+            imports: reachableNodes.reduce((sum, node) => sum + node.imports.length, 0),
+            nodes: reachableNodes.length,
+            avgDepth: leafDepths.length > 0 ? leafDepths.reduce((sum, depth) => sum + depth, 0) / leafDepths.length : 0,
+            overFetch: getElementsWeight([...loadedElements].filter((element) => !nodeElementSet.has(element)), this.options.elementWeight),
+            tree: {
+                ...treeMetric,
+                avgDepth: treeMetric.leaves > 0 ? treeMetric.avgDepth / treeMetric.leaves : 0,
+            },
         };
     }
 
-    private getNodeMetricRecursive(nodeObj: U, metrics: Required<NodeMetric<U>>, depth: number): T[] {
-        metrics.nodes += 1;
-        if (metrics.maxDepth < depth) {
-            metrics.maxDepth = depth;
-        }
+    /**
+     * Returns the longest distance from the node to each node which it imports directly or transitively, including the node itself with 0.
+     * @param nodeObj - The ArrayNode or SetNode to start from
+     */
+    private getMaxDepths(nodeObj: U): Map<U, number> {
+        const depths: Map<U, number> = new Map();
+        const setDepth = (node: U, depth: number) => {
+            if ((depths.get(node) ?? -1) < depth) {
+                depths.set(node, depth);
+                node.imports.forEach((importedNode: ArrayNode<T> | SetNode<T>) => setDepth(<U><unknown>importedNode, depth + 1));
+            }
+        };
+        setDepth(nodeObj, 0);
+        return depths;
+    }
+
+    /**
+     * Adds the metrics of the node and its imports to the tree metric, the depths of the leaves are summed up in `avgDepth`.
+     */
+    private getTreeMetricRecursive(nodeObj: U, treeMetric: TreeMetric, depth: number): void {
+        treeMetric.nodes += 1;
         if (depth > 0 && nodeObj.imports.length === 0) {
-            metrics.leaves += 1;
-            metrics.avgDepthSum += depth;
+            treeMetric.leaves += 1;
+            treeMetric.avgDepth += depth;
         }
-        if (nodeObj.imports.length > 0) {
-            metrics.imports += nodeObj.imports.length;
-            return [
-                ...nodeObj.rest,
-                ...nodeObj.imports.flatMap((nObj: ArrayNode<T> | SetNode<T>) => this.getNodeMetricRecursive(<U><unknown>nObj, metrics, depth + 1)),
-            ];
-        }
-        return [...nodeObj.rest];
+        treeMetric.imports += nodeObj.imports.length;
+        nodeObj.imports.forEach((nObj: ArrayNode<T> | SetNode<T>) => this.getTreeMetricRecursive(<U><unknown>nObj, treeMetric, depth + 1));
     }
 }
+
+/**
+ * Returns the percentiles of the values by the nearest rank method, all percentiles are 0 without values.
+ * @param values - The values
+ */
+function getPercentiles(values: number[]): Percentiles {
+    const sortedValues = [...values].sort((a, b) => a - b);
+    const getPercentile = (percentile: number) => sortedValues[Math.max(Math.ceil((percentile / 100) * sortedValues.length) - 1, 0)] || 0;
+    return {
+        p50: getPercentile(50),
+        p90: getPercentile(90),
+        max: getPercentile(100),
+    };
+}
@@ -0,0 +1,101 @@
+import { addMaxDepthToNodes, ArrayNode, SetNode } from './helpers';
+
+/**
+ * Optimizes the SetNodes or ArrayNodes returned by any split function. A generated node which is imported by only one node costs a request without saving
+ * any duplication, so it is merged into its importer. A generated node with an empty `rest` and only one import is dropped and its importers import the
+ * imported node directly. Afterwards the depth of the nodes is calculated again by `addMaxDepthToNodes`. The given nodes are copied and not changed.
+ * @param nodes - The SetNodes or ArrayNodes to optimize
+ */
+export function optimizeNodes<T, U extends SetNode<T> | ArrayNode<T>>(nodes: U[]): U[] {
+    const copiedNodes: Map<U, U> = new Map(nodes.map((node) => [node, <U>{
+        ...node,
+        rest: node.rest instanceof Set ? new Set(node.rest) : [...node.rest],
+    }]));
+    let optimizedNodes = nodes.map((node) => <U>copiedNodes.get(node));
+    optimizedNodes.forEach((node) => {
+        setImports(node, (<U[]>node.imports).map((importedNode) => copiedNodes.get(importedNode) || importedNode));
+    });
+    let remainingNodes = removeNode(optimizedNodes);
+    while (remainingNodes) {
+        optimizedNodes = remainingNodes;
+        remainingNodes = removeNode(optimizedNodes);
+    }
+    addMaxDepthToNodes(getImportersFirst(optimizedNodes));
+    return optimizedNodes;
+}
+
+/**
+ * Merges or drops the first node which can be removed and returns the remaining nodes, or `undefined` when no node can be removed.
+ */
+function removeNode<T, U extends SetNode<T> | ArrayNode<T>>(nodes: U[]): U[] | undefined {
+    const importers = getImporters(nodes);
+    const removedNode = nodes.find((node) => node.depth !== 0 && (
+        (<U[]>importers.get(node)).length === 1 || (getSize(node.rest) === 0 && node.imports.length === 1)
+    ));
+    if (!removedNode) {
+        return undefined;
+    }
+    const nodeImporters = <U[]>importers.get(removedNode);
+    if (nodeImporters.length === 1) {
+        mergeIntoImporter(removedNode, nodeImporters[0]);
+    } else {
+        nodeImporters.forEach((importer) => replaceImport(importer, removedNode, <U[]>removedNode.imports));
+    }
+    return nodes.filter((node) => node !== removedNode);
+}
+
+function setImports<T, U extends SetNode<T> | ArrayNode<T>>(node: U, imports: U[]): void {
+    (<{ imports: U[] }><unknown>node).imports = imports;
+}
+
+function getSize<T>(rest: Set<T> | T[]): number {
+    return rest instanceof Set ? rest.size : rest.length;
+}
+
+function getImporters<T, U extends SetNode<T> | ArrayNode<T>>(nodes: U[]): Map<U, U[]> {
+    const importers: Map<U, U[]> = new Map(nodes.map((node) => [node, []]));
+    nodes.forEach((node) => {
+        (<U[]>node.imports).forEach((importedNode) => {
+            importers.get(importedNode)?.push(node);
+        });
+    });
+    return importers;
+}
+
+/**
+ * Moves `rest` and the imports of the node to its only importer.
+ */
+function mergeIntoImporter<T, U extends SetNode<T> | ArrayNode<T>>(node: U, importer: U): void {
+    if (importer.rest instanceof Set) {
+        const importerRest = importer.rest;
+        node.rest.forEach((element: T) => importerRest.add(element));
+    } else {
+        importer.rest.push(...<T[]>node.rest);
+    }
+    replaceImport(importer, node, <U[]>node.imports);
+}
+
+/**
+ * Replaces the import of a node by its imports, which are not already imported.
+ */
+function replaceImport<T, U extends SetNode<T> | ArrayNode<T>>(importer: U, node: U, imports: U[]): void {
+    const importerImports = (<U[]>importer.imports).filter((importedNode) => importedNode !== node);
+    setImports(importer, [...importerImports, ...imports.filter((importedNode) => !importerImports.includes(importedNode))]);
+}
+
+/**
+ * Returns the nodes in an order where each node is after all nodes which import it, as required by `addMaxDepthToNodes`.
+ */
+function getImportersFirst<T, U extends SetNode<T> | ArrayNode<T>>(nodes: U[]): U[] {
+    const visitedNodes: Set<U> = new Set();
+    const orderedNodes: U[] = [];
+    const visit = (node: U) => {
+        if (!visitedNodes.has(node)) {
+            visitedNodes.add(node);
+            (<U[]>node.imports).forEach(visit);
+            orderedNodes.push(node);
+        }
+    };
+    nodes.filter(({depth}) => depth === 0).forEach(visit);
+    return orderedNodes.reverse();
+}
@@ -0,0 +1,118 @@
+import { ArrayNode, SetNode } from './helpers';
+
+/**
+ * @typedef SerializedNode
+ * @property id - The id of the node
+ * @property elements - The elements of `set` or `array` of the node
+ * @property rest - The elements of `rest` of the node
+ * @property imports - The indices of the imported nodes in `SerializedNodes.nodes`
+ * @property depth - The depth of the node
+ * @property key - The key of a root node, when the nodes were created from keyed collections
+ */
+export type SerializedNode<E> = {
+    id: string;
+    elements: E[];
+    rest: E[];
+    imports: number[];
+    depth: number;
+    key?: unknown;
+};
+
+/**
+ * The flat format of serialized nodes, where shared nodes are referenced by their index.
+ * @typedef SerializedNodes
+ * @property version - The version of the format
+ * @property type - Whether the nodes are `SetNodes` or `ArrayNodes`
+ * @property nodes - The serialized nodes in the order of the original array of nodes
+ */
+export type SerializedNodes<E> = {
+    version: 1;
+    type: 'set' | 'array';
+    nodes: SerializedNode<E>[];
+};
+
+/**
+ * Serializes an array of SetNodes or ArrayNodes into a JSON string. Every node is written once and the imports are written as indices, so that the
+ * shared references between the nodes can be restored by `deserializeNodes`. All imported nodes have to be part of the array.
+ * @param nodes - The SetNodes or ArrayNodes to serialize
+ * @param serializeElement - Function to convert each element into a value which can be serialized to JSON, default is the identity.
+ */
+export function serializeNodes<T, E = T>(
+    nodes: SetNode<T>[] | ArrayNode<T>[],
+    serializeElement: (element: T) => E = (element) => <E><unknown>element,
+): string {
+    const allNodes: (SetNode<T> | ArrayNode<T>)[] = nodes;
+    const nodeIndices: Map<SetNode<T> | ArrayNode<T>, number> = new Map(allNodes.map((node, i) => [node, i]));
+    const serializedNodes: SerializedNodes<E> = {
+        version: 1,
+        type: allNodes.length > 0 && 'array' in allNodes[0] ? 'array' : 'set',
+        nodes: allNodes.map((node) => {
+            const serializedNode: SerializedNode<E> = {
+                id: node.id,
+                elements: ('set' in node ? [...node.set] : node.array).map(serializeElement),
+                rest: [...node.rest].map(serializeElement),
+                imports: (<(SetNode<T> | ArrayNode<T>)[]>node.imports).map((importedNode) => {
+                    const index = nodeIndices.get(importedNode);
+                    if (index === undefined) {
+                        throw new Error(`Imported node ${importedNode.id} is not part of the serialized nodes`);
+                    }
+                    return index;
+                }),
+                depth: node.depth,
+            };
+            if ('key' in node) {
+                serializedNode.key = (<{ key: unknown }><unknown>node).key;
+            }
+            return serializedNode;
+        }),
+    };
+    return JSON.stringify(serializedNodes);
+}
+
+/**
+ * Restores the SetNodes or ArrayNodes from a string created by `serializeNodes`. All imports reference the same objects as the returned array. Each distinct
+ * serialized element is deserialized once, so that the same element is the same reference in all nodes and in their `rest`.
+ * @param serialized - The JSON string or the already parsed object
+ * @param deserializeElement - Function to restore each element from its serialized value, default is the identity.
+ */
+export function deserializeNodes<T, U extends SetNode<T> | ArrayNode<T> = SetNode<T>, E = T>(
+    serialized: string | SerializedNodes<E>,
+    deserializeElement: (element: E) => T = (element) => <T><unknown>element,
+): U[] {
+    const serializedNodes: SerializedNodes<E> = typeof serialized === 'string' ? JSON.parse(serialized) : serialized;
+    if (serializedNodes.version !== 1) {
+        throw new Error(`Version ${serializedNodes.version} of serialized nodes is not supported`);
+    }
+    const deserializedElements: Map<string, T> = new Map();
+    const getElement = (element: E): T => {
+        const elementKey = String(JSON.stringify(element));
+        if (!deserializedElements.has(elementKey)) {
+            deserializedElements.set(elementKey, deserializeElement(element));
+        }
+        return <T>deserializedElements.get(elementKey);
+    };
+    const nodes = serializedNodes.nodes.map(({
+        id, elements, rest, depth, key,
+    }) => {
+        const node = serializedNodes.type === 'array'
+            ? {
+                array: elements.map(getElement), id, rest: rest.map(getElement), imports: [], depth,
+            }
+            : {
+                set: new Set(elements.map(getElement)), id, rest: new Set(rest.map(getElement)), imports: [], depth,
+            };
+        if (key !== undefined) {
+            return { ...node, key };
+        }
+        return node;
+    });
+    serializedNodes.nodes.forEach(({imports}, i) => {
+        imports.forEach((index) => {
+            if (!nodes[index]) {
+                throw new Error(`Node ${nodes[i].id} imports the not existing node with the index ${index}`);
+            }
+            (<unknown[]>nodes[i].imports).push(nodes[index]);
+        });
+    });
+    return <U[]><unknown>nodes;
+}
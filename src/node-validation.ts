@@ -0,0 +1,164 @@
+import { ArrayNode, SetNode } from './helpers';
+
+/**
+ * An issue found by `validateNodes`.
+ * @typedef NodeValidationIssue
+ * @property type - The kind of the issue:
+ * - `missingElements` - Elements of `set` or `array` which are not in `rest` of the node or of any node it imports transitively.
+ * - `extraElements` - Elements in `rest` of the node or of any node it imports transitively, which are not in `set` or `array`.
+ * - `duplicateElements` - Elements which are in `rest` of more than one of the nodes reachable from the node.
+ * - `depthMismatch` - The depth of the node is not the maximum distance to a root node as set by `addMaxDepthToNodes`.
+ * - `cycle` - The node imports itself transitively, `path` contains the nodes of the cycle.
+ * - `unknownImport` - The node imports a node which is not part of the validated nodes.
+ */
+export type NodeValidationIssue<T, U> = {
+    type: 'missingElements' | 'extraElements' | 'duplicateElements';
+    node: U;
+    elements: T[];
+} | {
+    type: 'depthMismatch';
+    node: U;
+    depth: number;
+    expectedDepth: number;
+} | {
+    type: 'cycle';
+    node: U;
+    path: U[];
+} | {
+    type: 'unknownImport';
+    node: U;
+    importedNode: U;
+};
+
+/**
+ * @typedef NodeValidationReport
+ * @property valid - True when no issues were found
+ * @property issues - All found issues
+ * @property rootNodes - The number of nodes which are not imported by any other node
+ * @property generatedNodes - The number of nodes which are imported by another node
+ */
+export type NodeValidationReport<T, U> = {
+    valid: boolean;
+    issues: NodeValidationIssue<T, U>[];
+    rootNodes: number;
+    generatedNodes: number;
+};
+
+/**
+ * Validates the SetNodes or ArrayNodes returned by a split function. For each node `rest` together with `rest` of all transitively imported nodes has to
+ * contain exactly the elements of `set` or `array`, where each element is contained in only one of these nodes. The nodes have to build a directed acyclic
+ * graph and the depth of each node has to be the maximum distance to a root node. Root nodes are the nodes which are not imported by any other node.
+ * @param nodes - The SetNodes or ArrayNodes to validate
+ */
+export function validateNodes<T, U extends SetNode<T> | ArrayNode<T>>(nodes: U[]): NodeValidationReport<T, U> {
+    const issues: NodeValidationIssue<T, U>[] = [];
+    const knownNodes = new Set(nodes);
+    const importersMap: Map<U, U[]> = new Map(nodes.map((node) => [node, []]));
+    nodes.forEach((node) => {
+        getImports<T, U>(node).forEach((importedNode) => {
+            if (!knownNodes.has(importedNode)) {
+                issues.push({type: 'unknownImport', node, importedNode});
+            } else {
+                (<U[]>importersMap.get(importedNode)).push(node);
+            }
+        });
+    });
+    const cycles = findCycles<T, U>(nodes);
+    cycles.forEach((path) => {
+        issues.push({type: 'cycle', node: path[0], path});
+    });
+    if (cycles.length === 0) {
+        const expectedDepths: Map<U, number> = new Map();
+        const getExpectedDepth = (node: U): number => {
+            if (!expectedDepths.has(node)) {
+                const importers = <U[]>importersMap.get(node);
+                expectedDepths.set(node, importers.length === 0 ? 0 : Math.max(...importers.map((importer) => getExpectedDepth(importer))) + 1);
+            }
+            return <number>expectedDepths.get(node);
+        };
+        nodes.forEach((node) => {
+            const expectedDepth = getExpectedDepth(node);
+            if (node.depth !== expectedDepth) {
+                issues.push({
+                    type: 'depthMismatch', node, depth: node.depth, expectedDepth,
+                });
+            }
+        });
+    }
+    nodes.forEach((node) => {
+        const elementCounts: Map<T, number> = new Map();
+        getReachableNodes<T, U>(node).forEach((reachableNode) => {
+            new Set<T>(reachableNode.rest).forEach((element) => {
+                elementCounts.set(element, (elementCounts.get(element) || 0) + 1);
+            });
+        });
+        const setOrArrayNode: SetNode<T> | ArrayNode<T> = node;
+        const elements = new Set<T>('set' in setOrArrayNode ? setOrArrayNode.set : setOrArrayNode.array);
+        const missingElements = [...elements].filter((element) => !elementCounts.has(element));
+        const extraElements = [...elementCounts.keys()].filter((element) => !elements.has(element));
+        const duplicateElements = [...elementCounts.entries()].filter(([, count]) => count > 1).map(([element]) => element);
+        if (missingElements.length > 0) {
+            issues.push({type: 'missingElements', node, elements: missingElements});
+        }
+        if (extraElements.length > 0) {
+            issues.push({type: 'extraElements', node, elements: extraElements});
+        }
+        if (duplicateElements.length > 0) {
+            issues.push({type: 'duplicateElements', node, elements: duplicateElements});
+        }
+    });
+    const rootNodes = nodes.filter((node) => (<U[]>importersMap.get(node)).length === 0).length;
+    return {
+        valid: issues.length === 0,
+        issues,
+        rootNodes,
+        generatedNodes: nodes.length - rootNodes,
+    };
+}
+
+function getImports<T, U extends SetNode<T> | ArrayNode<T>>(node: U): U[] {
+    return <U[]>node.imports;
+}
+
+/**
+ * Returns the node and all nodes which it imports transitively, each node only once.
+ * @param node - The SetNode or ArrayNode to start from
+ */
+function getReachableNodes<T, U extends SetNode<T> | ArrayNode<T>>(node: U): Set<U> {
+    const reachableNodes: Set<U> = new Set();
+    const nextNodes = [node];
+    while (nextNodes.length > 0) {
+        const nextNode = <U>nextNodes.pop();
+        if (!reachableNodes.has(nextNode)) {
+            reachableNodes.add(nextNode);
+            nextNodes.push(...getImports<T, U>(nextNode));
+        }
+    }
+    return reachableNodes;
+}
+
+/**
+ * Returns a path for each cycle found by a depth first search over the imports.
+ * @param nodes - The SetNodes or ArrayNodes to search for cycles
+ */
+function findCycles<T, U extends SetNode<T> | ArrayNode<T>>(nodes: U[]): U[][] {
+    const cycles: U[][] = [];
+    const finishedNodes: Set<U> = new Set();
+    const path: U[] = [];
+    const visit = (node: U) => {
+        const pathIndex = path.indexOf(node);
+        if (pathIndex !== -1) {
+            cycles.push(path.slice(pathIndex));
+            return;
+        }
+        if (finishedNodes.has(node)) {
+            return;
+        }
+        path.push(node);
+        getImports<T, U>(node).forEach(visit);
+        path.pop();
+        finishedNodes.add(node);
+    };
+    nodes.forEach(visit);
+    return cycles;
+}
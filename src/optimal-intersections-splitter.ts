@@ -0,0 +1,316 @@
+import {
+    convertArraysToSetsAndUseSplitFunction,
+    createKeyableArraySplitFunction,
+    createKeyableSetSplitFunction,
+    createNodeId,
+    getElementsWeight,
+    KeyableArrayIntersectionsSplitFunction,
+    KeyableSetIntersectionsSplitFunction,
+    ArrayNode,
+    Arrays,
+    ElementWeightFunction,
+    NodeIdFunction,
+    SetNode,
+    Sets,
+} from './helpers';
+import { countBits } from './bitset';
+import { CostModel } from './cost-intersections-splitter';
+
+/**
+ * The options of the class `OptimalIntersectionsSplitter`.
+ * @typedef OptimalSplitterOptions
+ * @property idFunction - The function to create the ids of the nodes, default is `createNodeId`.
+ * @property elementWeight - The weight of each element. With an `elementWeight` the `elementCost` is the cost per unit of the weight.
+ * @property maxNodesPerRoot - The maximum number of nodes fetched by each root, including the root node itself. Default is `Infinity`.
+ * @property maxSteps - The maximum number of steps of the search, default is 1000000. When the limit is reached, the best result found so far is returned.
+ * @property timeLimit - The maximum duration of the search in milliseconds, default is `Infinity`. When the limit is reached, the best result found so far
+ * is returned.
+ */
+export type OptimalSplitterOptions<T> = {
+    idFunction?: NodeIdFunction<T>;
+    elementWeight?: ElementWeightFunction<T>;
+    maxNodesPerRoot?: number;
+    maxSteps?: number;
+    timeLimit?: number;
+};
+
+/**
+ * @typedef OptimalSearchResult
+ * @property optimal - True when the search was completed and the result is optimal, false when a limit was reached.
+ * @property steps - The number of steps of the search
+ * @property cost - The cost of the returned nodes, as calculated by `getNodesCost`
+ */
+export type OptimalSearchResult = {
+    optimal: boolean;
+    steps: number;
+    cost: number;
+};
+
+type ElementGroup<T> = {
+    roots: number;
+    elements: T[];
+    cost: number;
+};
+
+type SearchState = {
+    steps: number;
+    aborted: boolean;
+    bestCost: number;
+    bestBlocks: number[][];
+    blocks: number[][];
+    chunkUsage: Map<number, number>;
+    nodesPerRoot: number[];
+};
+
+/**
+ * The maximum number of sets, which can be represented by the bits of a number in the search.
+ */
+const MAX_SETS = 31;
+
+/**
+ * Returns the total cost of split nodes under a cost model. The elements in `rest` of each node are counted once, and the `requestCost` once for each
+ * node reachable from each root node, including the root node itself. This is the objective of `OptimalIntersectionsSplitter` and
+ * `CostIntersectionsSplitter` and can be used to compare the results of all splitters.
+ * @param nodes - The SetNodes or ArrayNodes
+ * @param costModel - The costs of the nodes and elements
+ * @param elementWeight - The weight of each element
+ */
+export function getNodesCost<T>(
+    nodes: SetNode<T>[] | ArrayNode<T>[],
+    {requestCost, elementCost = 1}: CostModel,
+    elementWeight?: ElementWeightFunction<T>,
+): number {
+    const allNodes: (SetNode<T> | ArrayNode<T>)[] = nodes;
+    const elementsCost = allNodes.reduce((cost, {rest}) => cost + getElementsWeight(rest, elementWeight) * elementCost, 0);
+    const fetchedNodes = allNodes.filter(({depth}) => depth === 0).reduce((count, rootNode) => {
+        const reachableNodes: Set<SetNode<T> | ArrayNode<T>> = new Set();
+        const nextNodes = [rootNode];
+        while (nextNodes.length > 0) {
+            const nextNode = <SetNode<T> | ArrayNode<T>>nextNodes.pop();
+            if (!reachableNodes.has(nextNode)) {
+                reachableNodes.add(nextNode);
+                nextNodes.push(...<(SetNode<T> | ArrayNode<T>)[]>nextNode.imports);
+            }
+        }
+        return count + reachableNodes.size;
+    }, 0);
+    return elementsCost + fetchedNodes * requestCost;
+}
+
+/**
+ * Class to find the split with the lowest cost by a branch and bound search, intended for less than about 20 sets. The elements which are included in the
+ * same sets are grouped, and for each group every partition of its sets into nodes is searched, where nodes of the same sets are shared by all groups.
+ * Nested nodes are not needed, because every node can be imported directly by all roots which fetch it without changing the cost. The search stops at
+ * `maxSteps` or `timeLimit` and returns the best result found so far, `lastSearchResult` tells whether the result is optimal.
+ */
+export class OptimalIntersectionsSplitter<T> {
+    /**
+     * The result of the last search, set by each call of `splitSets` or `splitArrays`.
+     */
+    public lastSearchResult?: OptimalSearchResult;
+
+    /**
+     * @param costModel - The costs of the nodes and elements, default is to minimize the number of stored elements.
+     * @param options - The options of the split and the limits of the search.
+     */
+    constructor(
+        private costModel: CostModel = {requestCost: 0},
+        private options: OptimalSplitterOptions<T> = {},
+    ) {}
+
+    /**
+     * `SplitFunction` to pull out the intersecting elements. When keyed collections are provided a `KeyedSplitResult` is returned.
+     * @param sets - The set of sets or the keyed collections.
+     */
+    public splitSets: KeyableSetIntersectionsSplitFunction<T, SetNode<T>> = createKeyableSetSplitFunction((sets: Sets<T>): SetNode<T>[] => {
+        const orderedSets = [...sets];
+        if (orderedSets.length > MAX_SETS) {
+            throw new Error(`OptimalIntersectionsSplitter can split at most ${MAX_SETS} sets`);
+        }
+        const { requestCost, elementCost = 1 } = this.costModel;
+        const { maxNodesPerRoot = Infinity, maxSteps = 1000000, timeLimit = Infinity } = this.options;
+        const groups = this.groupElements(orderedSets);
+        /* eslint-disable no-bitwise */
+        const sharedGroups = groups.filter(({roots}) => countBits(roots) > 1)
+            .sort((a, b) => b.cost * (countBits(b.roots) - 1) - a.cost * (countBits(a.roots) - 1));
+        const fixedCost = orderedSets.length * requestCost + groups.filter(({roots}) => countBits(roots) === 1).reduce((cost, group) => cost + group.cost, 0);
+        const remainingCosts = sharedGroups.map((_, i) => sharedGroups.slice(i).reduce((cost, group) => cost + group.cost, 0));
+        remainingCosts.push(0);
+        const singleRootBlocks = sharedGroups.map(({roots}) => orderedSets.map((__, i) => 1 << i).filter((root) => (roots & root) !== 0));
+        const state: SearchState = {
+            steps: 0,
+            aborted: false,
+            bestCost: fixedCost + sharedGroups.reduce((cost, group, i) => cost + group.cost * singleRootBlocks[i].length, 0),
+            bestBlocks: singleRootBlocks,
+            blocks: [],
+            chunkUsage: new Map(),
+            nodesPerRoot: orderedSets.map(() => 1),
+        };
+        const startTime = Date.now();
+        const isLimitReached = () => {
+            state.steps++;
+            if (state.steps > maxSteps || (state.steps % 1024 === 0 && Date.now() - startTime > timeLimit)) {
+                state.aborted = true;
+            }
+            return state.aborted;
+        };
+        const searchGroup = (groupIndex: number, cost: number) => {
+            if (cost + remainingCosts[groupIndex] >= state.bestCost) {
+                return;
+            }
+            if (groupIndex === sharedGroups.length) {
+                state.bestCost = cost;
+                state.bestBlocks = state.blocks.map((blocks) => [...blocks]);
+                return;
+            }
+            if (isLimitReached()) {
+                return;
+            }
+            const group = sharedGroups[groupIndex];
+            state.blocks.push([]);
+            const searchBlocks = (remainingRoots: number, blockCost: number) => {
+                if (remainingRoots === 0) {
+                    searchGroup(groupIndex + 1, blockCost);
+                    return;
+                }
+                const lowestRoot = remainingRoots & -remainingRoots;
+                const otherRoots = remainingRoots ^ lowestRoot;
+                let subset = otherRoots;
+                while (!state.aborted) {
+                    const block = subset | lowestRoot;
+                    const nextCost = blockCost + group.cost + this.getNewChunkCost(block, state, requestCost, maxNodesPerRoot);
+                    if (nextCost + remainingCosts[groupIndex + 1] < state.bestCost) {
+                        this.useBlock(block, state, 1);
+                        searchBlocks(remainingRoots ^ block, nextCost);
+                        this.useBlock(block, state, -1);
+                    }
+                    if (subset === 0) {
+                        break;
+                    }
+                    subset = (subset - 1) & otherRoots;
+                }
+            };
+            searchBlocks(group.roots, cost);
+            state.blocks.pop();
+        };
+        searchGroup(0, fixedCost);
+        /* eslint-enable no-bitwise */
+        const nodes = this.createNodes(orderedSets, groups, sharedGroups, state.bestBlocks);
+        this.lastSearchResult = {
+            optimal: !state.aborted,
+            steps: state.steps,
+            cost: getNodesCost(nodes, {requestCost, elementCost}, this.options.elementWeight),
+        };
+        return nodes;
+    });
+
+    /**
+     * `SplitFunction` to pull out the intersecting elements. When keyed collections are provided a `KeyedSplitResult` is returned.
+     * @param arrays - The array of arrays or the keyed collections.
+     */
+    public splitArrays: KeyableArrayIntersectionsSplitFunction<T, ArrayNode<T>> = createKeyableArraySplitFunction((
+        arrays: Arrays<T>,
+    ): ArrayNode<T>[] => convertArraysToSetsAndUseSplitFunction(arrays, this.splitSets));
+
+    /**
+     * Groups the elements by the sets which include them, the sets are represented by the bits of `roots`.
+     * @param sets - The sets to split
+     */
+    private groupElements(sets: Set<T>[]): ElementGroup<T>[] {
+        const elementRoots: Map<T, number> = new Map();
+        sets.forEach((set, i) => {
+            set.forEach((element) => {
+                elementRoots.set(element, (elementRoots.get(element) || 0) | (1 << i)); // eslint-disable-line no-bitwise
+            });
+        });
+        const groups: Map<number, T[]> = new Map();
+        elementRoots.forEach((roots, element) => {
+            const elements = groups.get(roots);
+            if (elements) {
+                elements.push(element);
+            } else {
+                groups.set(roots, [element]);
+            }
+        });
+        const { elementCost = 1 } = this.costModel;
+        return [...groups.entries()].map(([roots, elements]) => ({
+            roots,
+            elements,
+            cost: getElementsWeight(elements, this.options.elementWeight) * elementCost,
+        }));
+    }
+
+    /**
+     * Returns the request cost of a block, when it is used for the first time, and `Infinity` when a root would fetch more than `maxNodesPerRoot` nodes.
+     */
+    private getNewChunkCost(block: number, state: SearchState, requestCost: number, maxNodesPerRoot: number): number {
+        const rootsCount = countBits(block);
+        if (rootsCount === 1 || state.chunkUsage.has(block)) {
+            return 0;
+        }
+        const exceedsNodes = state.nodesPerRoot.some((nodes, i) => (block & (1 << i)) !== 0 && nodes >= maxNodesPerRoot); // eslint-disable-line no-bitwise
+        return exceedsNodes ? Infinity : rootsCount * requestCost;
+    }
+
+    /**
+     * Adds or removes a block of the current group to the search state.
+     */
+    private useBlock(block: number, state: SearchState, change: 1 | -1): void {
+        state.blocks[state.blocks.length - 1][change === 1 ? 'push' : 'pop'](block);
+        if (countBits(block) === 1) {
+            return;
+        }
+        const usage = (state.chunkUsage.get(block) || 0) + change;
+        if ((usage === 1 && change === 1) || usage === 0) {
+            state.nodesPerRoot.forEach((nodes, i) => {
+                if ((block & (1 << i)) !== 0) { // eslint-disable-line no-bitwise
+                    state.nodesPerRoot[i] = nodes + change;
+                }
+            });
+        }
+        if (usage === 0) {
+            state.chunkUsage.delete(block);
+        } else {
+            state.chunkUsage.set(block, usage);
+        }
+    }
+
+    /**
+     * Creates the root nodes and the nodes of the chunks from the blocks of the best result.
+     */
+    private createNodes(sets: Set<T>[], groups: ElementGroup<T>[], sharedGroups: ElementGroup<T>[], bestBlocks: number[][]): SetNode<T>[] {
+        const { idFunction = createNodeId } = this.options;
+        const groupBlocks: Map<ElementGroup<T>, number[]> = new Map(sharedGroups.map((group, i) => [group, bestBlocks[i]]));
+        const chunkElements: Map<number, T[]> = new Map();
+        const elementBlocks: Map<T, number[]> = new Map();
+        groups.forEach((group) => {
+            const blocks = groupBlocks.get(group) || [group.roots];
+            group.elements.forEach((element) => {
+                elementBlocks.set(element, blocks);
+            });
+            blocks.filter((block) => countBits(block) > 1).forEach((block) => {
+                const elements = chunkElements.get(block);
+                if (elements) {
+                    elements.push(...group.elements);
+                } else {
+                    chunkElements.set(block, [...group.elements]);
+                }
+            });
+        });
+        const chunkNodes: Map<number, SetNode<T>> = new Map([...chunkElements.entries()].map(([block, elements]) => [block, {
+            set: new Set(elements), id: idFunction(elements), rest: new Set(elements), depth: 1, imports: [],
+        }]));
+        const rootNodes: SetNode<T>[] = sets.map((set, i) => {
+            const root = 1 << i; // eslint-disable-line no-bitwise
+            const rootChunkNodes = [...chunkNodes.entries()].filter(([block]) => (block & root) !== 0); // eslint-disable-line no-bitwise
+            return {
+                set,
+                id: idFunction([...set]),
+                rest: new Set([...set].filter((element) => (<number[]>elementBlocks.get(element)).includes(root))),
+                depth: 0,
+                imports: rootChunkNodes.map(([, chunkNode]) => chunkNode),
+            };
+        });
+        return [...rootNodes, ...chunkNodes.values()];
+    }
+}
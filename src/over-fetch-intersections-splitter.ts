@@ -0,0 +1,143 @@
+import {
+    convertArraysToSetsAndUseSplitFunction,
+    createKeyableArraySplitFunction,
+    createKeyableSetSplitFunction,
+    createNodeId,
+    getElementsWeight,
+    KeyableArrayIntersectionsSplitFunction,
+    KeyableSetIntersectionsSplitFunction,
+    ArrayNode,
+    Arrays,
+    ElementWeightFunction,
+    SetNode,
+    Sets,
+    SplitterOptions,
+} from './helpers';
+import { splitIntersectionsSetsGrouped } from './shallow-intersections-splitter';
+
+/**
+ * The options of the class `OverFetchIntersectionsSplitter`. The over-fetch budget of each root is the bigger one of `maxOverFetch` and
+ * `maxOverFetchRatio` multiplied with the weight of the root.
+ * @typedef OverFetchSplitterOptions
+ * @property elementWeight - The weight of each element, e.g. its size in bytes. Default is 1 for each element.
+ * @property maxOverFetch - The maximum weight of the elements each root may load without including them, default is 0.
+ * @property maxOverFetchRatio - The maximum weight of the elements each root may load without including them, relative to the weight of the root, e.g.
+ * 0.1 for 10 percent. Default is 0.
+ */
+export type OverFetchSplitterOptions<T> = SplitterOptions<T> & {
+    elementWeight?: ElementWeightFunction<T>;
+    maxOverFetch?: number;
+    maxOverFetchRatio?: number;
+};
+
+type Chunk<T> = {
+    elements: T[];
+    weight: number;
+    rootIndices: Set<number>;
+};
+
+/**
+ * Class to split sets into shared nodes, which roots may load although they include only most of their elements. The elements are grouped like by
+ * `splitIntersectionsGrouped` first. Then two nodes loaded by the same root are merged, as long as the other roots which load only one of them stay within
+ * their over-fetch budget. The merge with the least over-fetched weight per saved node is done first. Roots which over-fetch load elements which are not
+ * in their `set`, so `validateNodes` reports them as `extraElements` and `GetNodeMetrics` reports the `overFetch`.
+ */
+export class OverFetchIntersectionsSplitter<T> {
+    /**
+     * @param options - The options of the split and the over-fetch budgets
+     */
+    constructor(private options: OverFetchSplitterOptions<T> = {}) {}
+
+    /**
+     * `SplitFunction` to pull out the intersecting elements. When keyed collections are provided a `KeyedSplitResult` is returned.
+     * @param sets - The set of sets or the keyed collections.
+     */
+    public splitSets: KeyableSetIntersectionsSplitFunction<T, SetNode<T>> = createKeyableSetSplitFunction((sets: Sets<T>): SetNode<T>[] => {
+        const {
+            idFunction = createNodeId,
+            minElements = 1,
+            elementWeight,
+            maxOverFetch = 0,
+            maxOverFetchRatio = 0,
+        } = this.options;
+        const groupedNodes = splitIntersectionsSetsGrouped(sets, {idFunction, minElements});
+        const rootNodes = groupedNodes.filter(({depth}) => depth === 0);
+        const budgets = rootNodes.map(({set}) => Math.max(maxOverFetch, maxOverFetchRatio * getElementsWeight(set, elementWeight)));
+        let chunks: Chunk<T>[] = groupedNodes.filter(({depth}) => depth !== 0).map((groupNode) => ({
+            elements: [...groupNode.rest],
+            weight: getElementsWeight(groupNode.rest, elementWeight),
+            rootIndices: new Set(rootNodes.map((rootNode, i) => (rootNode.imports.includes(groupNode) ? i : -1)).filter((i) => i >= 0)),
+        }));
+        let mergedChunks = this.mergeChunks(chunks, budgets);
+        while (mergedChunks) {
+            chunks = mergedChunks;
+            mergedChunks = this.mergeChunks(chunks, budgets);
+        }
+        const chunkNodes: SetNode<T>[] = chunks.map(({elements}) => ({
+            set: new Set(elements), id: idFunction(elements), rest: new Set(elements), depth: 1, imports: [],
+        }));
+        return [
+            ...rootNodes.map((rootNode, i) => ({
+                ...rootNode,
+                imports: chunkNodes.filter((_, j) => chunks[j].rootIndices.has(i)),
+            })),
+            ...chunkNodes,
+        ];
+    });
+
+    /**
+     * `SplitFunction` to pull out the intersecting elements. When keyed collections are provided a `KeyedSplitResult` is returned.
+     * @param arrays - The array of arrays or the keyed collections.
+     */
+    public splitArrays: KeyableArrayIntersectionsSplitFunction<T, ArrayNode<T>> = createKeyableArraySplitFunction((
+        arrays: Arrays<T>,
+    ): ArrayNode<T>[] => convertArraysToSetsAndUseSplitFunction(arrays, this.splitSets));
+
+    /**
+     * Merges the two chunks with the least over-fetched weight per saved chunk and reduces the budgets of the over-fetching roots. Returns the chunks after
+     * the merge, or `undefined` when no merge is within the budgets.
+     * @param chunks - The current chunks
+     * @param budgets - The remaining over-fetch budgets of the roots
+     */
+    private mergeChunks(chunks: Chunk<T>[], budgets: number[]): Chunk<T>[] | undefined {
+        let bestMerge: { chunk1: Chunk<T>, chunk2: Chunk<T>, overFetch: Map<number, number>, score: number } | undefined;
+        chunks.forEach((chunk1, i) => {
+            chunks.slice(i + 1).forEach((chunk2) => {
+                const sharedRoots = [...chunk1.rootIndices].filter((rootIndex) => chunk2.rootIndices.has(rootIndex)).length;
+                if (sharedRoots === 0) {
+                    return;
+                }
+                const overFetch: Map<number, number> = new Map([...getOverFetch(chunk1, chunk2), ...getOverFetch(chunk2, chunk1)]);
+                if ([...overFetch].some(([rootIndex, weight]) => weight > budgets[rootIndex])) {
+                    return;
+                }
+                const score = [...overFetch.values()].reduce((sum, weight) => sum + weight, 0) / sharedRoots;
+                if (!bestMerge || score < bestMerge.score) {
+                    bestMerge = {
+                        chunk1, chunk2, overFetch, score,
+                    };
+                }
+            });
+        });
+        if (!bestMerge) {
+            return undefined;
+        }
+        const { chunk1, chunk2, overFetch } = bestMerge;
+        overFetch.forEach((weight, rootIndex) => {
+            budgets[rootIndex] -= weight;
+        });
+        const mergedChunk: Chunk<T> = {
+            elements: [...chunk1.elements, ...chunk2.elements],
+            weight: chunk1.weight + chunk2.weight,
+            rootIndices: new Set([...chunk1.rootIndices, ...chunk2.rootIndices]),
+        };
+        return chunks.map((chunk) => (chunk === chunk1 ? mergedChunk : chunk)).filter((chunk) => chunk !== chunk2);
+    }
+}
+
+/**
+ * Returns the roots of the first chunk which do not load the second chunk, with the weight they over-fetch when both chunks are merged.
+ */
+function getOverFetch<T>(chunk: Chunk<T>, otherChunk: Chunk<T>): [number, number][] {
+    return [...chunk.rootIndices].filter((rootIndex) => !otherChunk.rootIndices.has(rootIndex)).map((rootIndex) => [rootIndex, otherChunk.weight]);
+}
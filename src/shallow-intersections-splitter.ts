@@ -1,27 +1,68 @@
 import {
-    ArrayNode, Arrays, SetNode, Sets,
+    createKeyableArraySplitFunction,
+    createKeyableSetSplitFunction,
+    createNodeId,
+    getElementsWeight,
+    isKeyedCollections,
+    ArrayNode,
+    Arrays,
+    ElementWeightFunction,
+    KeyedCollections,
+    KeyedSplitResult,
+    SetNode,
+    Sets,
+    SplitterOptions,
 } from './helpers';
 
-export function splitIntersectionsShallow<T>(collections: Sets<T>): SetNode<T>[];
-export function splitIntersectionsShallow<T>(collections: Arrays<T>): ArrayNode<T>[];
+/**
+ * The options of `splitIntersectionsShallow`. Each created node contains one element, so `minElements` can be at most 1 and the shared elements are
+ * filtered by their weight instead.
+ * @typedef ShallowSplitterOptions
+ * @property elementWeight - The weight of each element, default is 1 for each element.
+ * @property minWeight - The minimum weight of a shared element to create a node for it, default is 0. Shared elements with a lower weight stay in `rest`
+ * of each node which includes them.
+ */
+export type ShallowSplitterOptions<T> = SplitterOptions<T> & {
+    elementWeight?: ElementWeightFunction<T>;
+    minWeight?: number;
+};
+
+export function splitIntersectionsShallow<T>(collections: Sets<T>, options?: ShallowSplitterOptions<T>): SetNode<T>[];
+export function splitIntersectionsShallow<T>(collections: Arrays<T>, options?: ShallowSplitterOptions<T>): ArrayNode<T>[];
+export function splitIntersectionsShallow<T, K>(collections: Map<K, Iterable<T>>, options?: ShallowSplitterOptions<T>): KeyedSplitResult<K, SetNode<T>>;
+export function splitIntersectionsShallow<T>(collections: Record<string, T[]>, options?: ShallowSplitterOptions<T>): KeyedSplitResult<string, ArrayNode<T>>;
 /**
  * `SplitFunction` to split all intersections between sets or arrays into `SetNodes` or `ArrayNodes`, each containing one element.
  * The execution of this function is extremely fast but can result in bigger overall files depending on the structure generated by the sets.
- * @param collections - The set of sets or array of arrays used to split.
+ * A `Map` of keyed collections is split into `SetNodes` and a `Record` of keyed arrays into `ArrayNodes`, both returned as `KeyedSplitResult`.
+ * Throws when `minElements` is greater than 1, because no node of one element would be created.
+ * @param collections - The set of sets, array of arrays or keyed collections used to split.
+ * @param options - The options of the split.
  */
-export function splitIntersectionsShallow<T>(collections: Sets<T> | Arrays<T>): (SetNode<T> | ArrayNode<T>)[] {
+export function splitIntersectionsShallow<T, K>(
+    collections: Sets<T> | Arrays<T> | KeyedCollections<K, T>,
+    options: ShallowSplitterOptions<T> = {},
+): (SetNode<T> | ArrayNode<T>)[] | KeyedSplitResult<K, SetNode<T>> | KeyedSplitResult<string, ArrayNode<T>> {
+    if (isKeyedCollections(collections)) {
+        if (collections instanceof Map) {
+            return createKeyableSetSplitFunction<T, SetNode<T>>((sets) => splitIntersectionsSetsShallow(sets, options))(collections);
+        }
+        return createKeyableArraySplitFunction<T, ArrayNode<T>>((arrays) => splitIntersectionsArrayShallow(arrays, options))(collections);
+    }
     if (Array.isArray(collections)) {
-        return splitIntersectionsArrayShallow(collections);
+        return splitIntersectionsArrayShallow(collections, options);
     }
-    return splitIntersectionsSetsShallow(collections);
+    return splitIntersectionsSetsShallow(collections, options);
 }
 
-export function splitIntersectionsSetsShallow<T>(sets: Sets<T>): SetNode<T>[] {
+export function splitIntersectionsSetsShallow<T>(sets: Sets<T>, options: ShallowSplitterOptions<T> = {}): SetNode<T>[] {
+    const { idFunction = createNodeId } = options;
+    const isSplitElement = createSplitElementFilter(options);
     const setElements: Set<T> = new Set();
     const multipleSetElements: Set<T> = new Set();
     sets.forEach((set) => {
         set.forEach((element) => {
-            if (setElements.has(element)) {
+            if (setElements.has(element) && isSplitElement(element)) {
                 multipleSetElements.add(element);
             }
             setElements.add(element);
@@ -30,7 +71,7 @@ export function splitIntersectionsSetsShallow<T>(sets: Sets<T>): SetNode<T>[] {
     const multipleSetElementsMap: Map<T, SetNode<T>> = new Map();
     multipleSetElements.forEach((element) => {
         multipleSetElementsMap.set(element, {
-            set: new Set([element]), rest: new Set([element]), depth: 1, imports: [],
+            set: new Set([element]), id: idFunction([element]), rest: new Set([element]), depth: 1, imports: [],
         });
     });
     const setNodeArray: SetNode<T>[] = [];
@@ -46,6 +87,7 @@ export function splitIntersectionsSetsShallow<T>(sets: Sets<T>): SetNode<T>[] {
         });
         setNodeArray.push({
             set,
+            id: idFunction([...set]),
             rest,
             depth: 0,
             imports,
@@ -57,22 +99,24 @@ export function splitIntersectionsSetsShallow<T>(sets: Sets<T>): SetNode<T>[] {
     return setNodeArray;
 }
 
-export function splitIntersectionsArrayShallow<T>(arrays: Arrays<T>): ArrayNode<T>[] {
+export function splitIntersectionsArrayShallow<T>(arrays: Arrays<T>, options: ShallowSplitterOptions<T> = {}): ArrayNode<T>[] {
+    const { idFunction = createNodeId } = options;
+    const isSplitElement = createSplitElementFilter(options);
     const arrElements: Array<T> = [];
     const multipleArrayElements: Array<T> = [];
     arrays.forEach((array) => {
         array.forEach((element) => {
-            if (arrElements.includes(element)) {
-                multipleArrayElements.push(element);
-            } else {
+            if (!arrElements.includes(element)) {
                 arrElements.push(element);
+            } else if (isSplitElement(element)) {
+                multipleArrayElements.push(element);
             }
         });
     });
     const multipleArrayElementsMap: Map<T, ArrayNode<T>> = new Map();
     multipleArrayElements.forEach((element) => {
         multipleArrayElementsMap.set(element, {
-            array: [element], rest: [element], depth: 1, imports: [],
+            array: [element], id: idFunction([element]), rest: [element], depth: 1, imports: [],
         });
     });
     const arrayNodesArray: ArrayNode<T>[] = [];
@@ -88,6 +132,7 @@ export function splitIntersectionsArrayShallow<T>(arrays: Arrays<T>): ArrayNode<
         });
         arrayNodesArray.push({
             array,
+            id: idFunction(array),
             rest,
             depth: 0,
             imports,
@@ -98,3 +143,159 @@ export function splitIntersectionsArrayShallow<T>(arrays: Arrays<T>): ArrayNode<
     });
     return arrayNodesArray;
 }
+
+export function splitIntersectionsGrouped<T>(collections: Sets<T>, options?: SplitterOptions<T>): SetNode<T>[];
+export function splitIntersectionsGrouped<T>(collections: Arrays<T>, options?: SplitterOptions<T>): ArrayNode<T>[];
+export function splitIntersectionsGrouped<T, K>(collections: Map<K, Iterable<T>>, options?: SplitterOptions<T>): KeyedSplitResult<K, SetNode<T>>;
+export function splitIntersectionsGrouped<T>(collections: Record<string, T[]>, options?: SplitterOptions<T>): KeyedSplitResult<string, ArrayNode<T>>;
+/**
+ * `SplitFunction` to split all intersections between sets or arrays into `SetNodes` or `ArrayNodes`, each containing all elements which are included in
+ * exactly the same sets or arrays. This results in the smallest number of nodes with a depth of at most one, where each element is in only one node.
+ * Like `splitIntersectionsShallow` the execution time grows about linear with the number of elements.
+ * A `Map` of keyed collections is split into `SetNodes` and a `Record` of keyed arrays into `ArrayNodes`, both returned as `KeyedSplitResult`.
+ * @param collections - The set of sets, array of arrays or keyed collections used to split.
+ * @param options - The options of the split. Groups with less than `minElements` elements are not split, their elements stay in `rest`.
+ */
+export function splitIntersectionsGrouped<T, K>(
+    collections: Sets<T> | Arrays<T> | KeyedCollections<K, T>,
+    options: SplitterOptions<T> = {},
+): (SetNode<T> | ArrayNode<T>)[] | KeyedSplitResult<K, SetNode<T>> | KeyedSplitResult<string, ArrayNode<T>> {
+    if (isKeyedCollections(collections)) {
+        if (collections instanceof Map) {
+            return createKeyableSetSplitFunction<T, SetNode<T>>((sets) => splitIntersectionsSetsGrouped(sets, options))(collections);
+        }
+        return createKeyableArraySplitFunction<T, ArrayNode<T>>((arrays) => splitIntersectionsArrayGrouped(arrays, options))(collections);
+    }
+    if (Array.isArray(collections)) {
+        return splitIntersectionsArrayGrouped(collections, options);
+    }
+    return splitIntersectionsSetsGrouped(collections, options);
+}
+
+export function splitIntersectionsSetsGrouped<T>(sets: Sets<T>, {idFunction = createNodeId, minElements = 1}: SplitterOptions<T> = {}): SetNode<T>[] {
+    const groupMap = groupElementsByMembership([...sets], minElements);
+    const groupNodeMap: Map<T[], SetNode<T>> = new Map();
+    groupMap.forEach((group) => {
+        if (!groupNodeMap.has(group)) {
+            groupNodeMap.set(group, {
+                set: new Set(group), id: idFunction(group), rest: new Set(group), depth: 1, imports: [],
+            });
+        }
+    });
+    const setNodeArray: SetNode<T>[] = [];
+    sets.forEach((set) => {
+        const rest: Set<T> = new Set();
+        const imports: Set<SetNode<T>> = new Set();
+        set.forEach((element) => {
+            const group = groupMap.get(element);
+            if (group) {
+                imports.add(<SetNode<T>>groupNodeMap.get(group));
+            } else {
+                rest.add(element);
+            }
+        });
+        setNodeArray.push({
+            set,
+            id: idFunction([...set]),
+            rest,
+            depth: 0,
+            imports: [...imports],
+        });
+    });
+    groupNodeMap.forEach((setNode) => {
+        setNodeArray.push(setNode);
+    });
+    return setNodeArray;
+}
+
+export function splitIntersectionsArrayGrouped<T>(
+    arrays: Arrays<T>,
+    {idFunction = createNodeId, minElements = 1}: SplitterOptions<T> = {},
+): ArrayNode<T>[] {
+    const groupMap = groupElementsByMembership(arrays, minElements);
+    const groupNodeMap: Map<T[], ArrayNode<T>> = new Map();
+    groupMap.forEach((group) => {
+        if (!groupNodeMap.has(group)) {
+            groupNodeMap.set(group, {
+                array: group, id: idFunction(group), rest: [...group], depth: 1, imports: [],
+            });
+        }
+    });
+    const arrayNodesArray: ArrayNode<T>[] = [];
+    arrays.forEach((array) => {
+        const rest: Array<T> = [];
+        const imports: Set<ArrayNode<T>> = new Set();
+        array.forEach((element) => {
+            const group = groupMap.get(element);
+            if (group) {
+                imports.add(<ArrayNode<T>>groupNodeMap.get(group));
+            } else {
+                rest.push(element);
+            }
+        });
+        arrayNodesArray.push({
+            array,
+            id: idFunction(array),
+            rest,
+            depth: 0,
+            imports: [...imports],
+        });
+    });
+    groupNodeMap.forEach((arrayNode) => {
+        arrayNodesArray.push(arrayNode);
+    });
+    return arrayNodesArray;
+}
+
+/**
+ * Groups the elements which are included in more than one collection by the indices of the collections which include them. Returns a map from each
+ * grouped element to its group, all elements of a group share the same array.
+ * @param collections - The sets or arrays to group the elements of
+ * @param minElements - The minimum number of elements of a group
+ */
+function groupElementsByMembership<T>(collections: Iterable<T>[], minElements: number): Map<T, T[]> {
+    const membershipMap: Map<T, number[]> = new Map();
+    collections.forEach((collection, i) => {
+        [...collection].forEach((element) => {
+            const membership = membershipMap.get(element);
+            if (!membership) {
+                membershipMap.set(element, [i]);
+            } else if (membership[membership.length - 1] !== i) {
+                membership.push(i);
+            }
+        });
+    });
+    const signatureMap: Map<string, T[]> = new Map();
+    membershipMap.forEach((membership, element) => {
+        if (membership.length > 1) {
+            const signature = membership.join(',');
+            const group = signatureMap.get(signature);
+            if (!group) {
+                signatureMap.set(signature, [element]);
+            } else {
+                group.push(element);
+            }
+        }
+    });
+    const groupMap: Map<T, T[]> = new Map();
+    signatureMap.forEach((group) => {
+        if (group.length >= minElements) {
+            group.forEach((element) => {
+                groupMap.set(element, group);
+            });
+        }
+    });
+    return groupMap;
+}
+
+/**
+ * Creates the function which returns whether a shared element gets its own node, i.e. whether its weight reaches `minWeight`. Throws when
+ * `minElements` is greater than 1.
+ * @param options - The options of the split
+ */
+function createSplitElementFilter<T>({minElements = 1, elementWeight, minWeight = 0}: ShallowSplitterOptions<T>): (element: T) => boolean {
+    if (minElements > 1) {
+        throw new Error(`The shallow split creates nodes of one element, minElements must be at most 1 but is ${minElements}`);
+    }
+    return (element) => getElementsWeight([element], elementWeight) >= minWeight;
+}
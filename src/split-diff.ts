@@ -0,0 +1,190 @@
+import { ArrayNode, SetNode } from './helpers';
+import { GetNodeMetrics, Metric, NodeMetricsOptions } from './node-metrics';
+
+/**
+ * An element which is in `rest` of other nodes in the second split.
+ * @typedef MovedElement
+ * @property element - The moved element
+ * @property from - The nodes of the first split which include the element in `rest`
+ * @property to - The nodes of the second split which include the element in `rest`
+ */
+export type MovedElement<T, U> = {
+    element: T;
+    from: U[];
+    to: U[];
+};
+
+/**
+ * A root whose imports changed.
+ * @typedef ChangedImports
+ * @property root - The root node of the second split
+ * @property previousRoot - The root node of the first split with the same elements
+ * @property addedImports - The imported nodes of the second split without a node with the same elements imported in the first split
+ * @property removedImports - The imported nodes of the first split without a node with the same elements imported in the second split
+ */
+export type ChangedImports<U> = {
+    root: U;
+    previousRoot: U;
+    addedImports: U[];
+    removedImports: U[];
+};
+
+/**
+ * The differences between two splits of the same sets or arrays, returned by `diffSplits`.
+ * @typedef SplitDiff
+ * @property added - The nodes of the second split without a node with the same elements in the first split
+ * @property removed - The nodes of the first split without a node with the same elements in the second split
+ * @property moved - The elements which are in `rest` of other nodes
+ * @property changedImports - The roots whose imports changed
+ * @property metricDeltas - The metrics of the second split minus the metrics of the first split
+ */
+export type SplitDiff<T, U> = {
+    added: U[];
+    removed: U[];
+    moved: MovedElement<T, U>[];
+    changedImports: ChangedImports<U>[];
+    metricDeltas: Partial<Metric>;
+};
+
+/**
+ * @typedef SplitDiffFormatOptions
+ * @property maxElements - The maximum number of elements shown for each node, default is 5.
+ * @property formatElement - Function to convert an element to the text shown, default is `String`.
+ */
+export type SplitDiffFormatOptions<T> = {
+    maxElements?: number;
+    formatElement?: (element: T) => string;
+};
+
+/**
+ * Compares two splits of the same sets or arrays, e.g. of different weight functions. The nodes are matched by their elements and whether they are roots,
+ * not by their ids or the order. The metrics of both splits are calculated by `GetNodeMetrics` with the given options.
+ * @param nodes1 - The SetNodes or ArrayNodes of the first split
+ * @param nodes2 - The SetNodes or ArrayNodes of the second split
+ * @param options - The options of the metrics
+ */
+export function diffSplits<T, U extends SetNode<T> | ArrayNode<T>>(nodes1: U[], nodes2: U[], options: NodeMetricsOptions<T> = {}): SplitDiff<T, U> {
+    const elementIndices: Map<T, number> = new Map();
+    const getKey = (node: U): string => {
+        const indices = getElements<T, U>(node).map((element) => {
+            if (!elementIndices.has(element)) {
+                elementIndices.set(element, elementIndices.size);
+            }
+            return <number>elementIndices.get(element);
+        });
+        return `${node.depth === 0 ? 'root' : 'node'}:${indices.sort((a, b) => a - b).join(',')}`;
+    };
+    const keys: Map<U, string> = new Map([...nodes1, ...nodes2].map((node) => [node, getKey(node)]));
+    const matchedNodes = matchNodes(nodes1, nodes2, keys);
+    const matchedRoots = [...matchedNodes.entries()].filter(([node]) => node.depth === 0);
+    const changedImports = matchedRoots.map(([previousRoot, root]) => {
+        const [removedImports, addedImports] = getUnmatchedNodes(<U[]>previousRoot.imports, <U[]>root.imports, keys);
+        return {
+            root, previousRoot, addedImports, removedImports,
+        };
+    }).filter(({addedImports, removedImports}) => addedImports.length > 0 || removedImports.length > 0);
+    const [removed, added] = getUnmatchedNodes(nodes1, nodes2, keys);
+    return {
+        added,
+        removed,
+        moved: getMovedElements(nodes1, nodes2, keys),
+        changedImports,
+        metricDeltas: getMetricDeltas(nodes1, nodes2, options),
+    };
+}
+
+/**
+ * Formats the differences of two splits as text, one line for each difference. Added nodes start with `+`, removed nodes with `-`, roots with changed
+ * imports with `~`, moved elements with `>` and metric deltas with `Δ`.
+ * @param splitDiff - The differences returned by `diffSplits`
+ * @param options - The options of the format
+ */
+export function formatSplitDiff<T, U extends SetNode<T> | ArrayNode<T>>(
+    {
+        added, removed, moved, changedImports, metricDeltas,
+    }: SplitDiff<T, U>,
+    {maxElements = 5, formatElement = String}: SplitDiffFormatOptions<T> = {},
+): string {
+    const formatElements = (elements: T[]) => {
+        const shownElements = elements.slice(0, maxElements).map((element) => formatElement(element)).join(', ');
+        return elements.length > maxElements ? `[${shownElements}, … (+${elements.length - maxElements})]` : `[${shownElements}]`;
+    };
+    const formatNode = (node: U) => `${node.depth === 0 ? 'root' : 'node'} ${formatElements(getElements<T, U>(node))}`;
+    const formatNodes = (nodes: U[]) => nodes.map(formatNode).join(', ');
+    return [
+        ...added.map((node) => `+ ${formatNode(node)}`),
+        ...removed.map((node) => `- ${formatNode(node)}`),
+        ...changedImports.map(({root, addedImports, removedImports}) => [
+            `~ ${formatNode(root)}`,
+            ...(addedImports.length > 0 ? [`imports ${formatNodes(addedImports)}`] : []),
+            ...(removedImports.length > 0 ? [`no longer imports ${formatNodes(removedImports)}`] : []),
+        ].join(', ')),
+        ...moved.map(({element, from, to}) => `> ${formatElement(element)}: ${formatNodes(from) || 'none'} -> ${formatNodes(to) || 'none'}`),
+        ...(<[string, number][]>Object.entries(metricDeltas)).filter(([, delta]) => delta !== 0)
+            .map(([metric, delta]) => `Δ ${metric}: ${delta > 0 ? '+' : ''}${delta}`),
+    ].join('\n');
+}
+
+function getElements<T, U extends SetNode<T> | ArrayNode<T>>(node: U): T[] {
+    return 'set' in node ? [...(<SetNode<T>>node).set] : (<ArrayNode<T>>node).array;
+}
+
+/**
+ * Returns a map from the nodes of the first split to the nodes of the second split with the same key. Nodes with the same key are matched in their order.
+ */
+function matchNodes<U>(nodes1: U[], nodes2: U[], keys: Map<U, string>): Map<U, U> {
+    const unmatchedNodes: Map<string, U[]> = new Map();
+    nodes2.forEach((node) => {
+        const key = <string>keys.get(node);
+        unmatchedNodes.set(key, [...(unmatchedNodes.get(key) || []), node]);
+    });
+    const matchedNodes: Map<U, U> = new Map();
+    nodes1.forEach((node) => {
+        const matchingNode = (unmatchedNodes.get(<string>keys.get(node)) || []).shift();
+        if (matchingNode) {
+            matchedNodes.set(node, matchingNode);
+        }
+    });
+    return matchedNodes;
+}
+
+/**
+ * Returns the nodes of the first and of the second list, which have no node with the same key in the other list.
+ */
+function getUnmatchedNodes<U>(nodes1: U[], nodes2: U[], keys: Map<U, string>): [U[], U[]] {
+    const matchedNodes = matchNodes(nodes1, nodes2, keys);
+    const matchingNodes = new Set(matchedNodes.values());
+    return [nodes1.filter((node) => !matchedNodes.has(node)), nodes2.filter((node) => !matchingNodes.has(node))];
+}
+
+function getMovedElements<T, U extends SetNode<T> | ArrayNode<T>>(nodes1: U[], nodes2: U[], keys: Map<U, string>): MovedElement<T, U>[] {
+    const getRestNodes = (nodes: U[]) => {
+        const restNodes: Map<T, U[]> = new Map();
+        nodes.forEach((node) => {
+            (<T[]>[...node.rest]).forEach((element) => {
+                restNodes.set(element, [...(restNodes.get(element) || []), node]);
+            });
+        });
+        return restNodes;
+    };
+    const restNodes1 = getRestNodes(nodes1);
+    const restNodes2 = getRestNodes(nodes2);
+    const elements = new Set([...restNodes1.keys(), ...restNodes2.keys()]);
+    return [...elements].map((element) => ({
+        element,
+        from: restNodes1.get(element) || [],
+        to: restNodes2.get(element) || [],
+    })).filter(({from, to}) => {
+        const [unmatchedFrom, unmatchedTo] = getUnmatchedNodes(from, to, keys);
+        return unmatchedFrom.length > 0 || unmatchedTo.length > 0;
+    });
+}
+
+function getMetricDeltas<T, U extends SetNode<T> | ArrayNode<T>>(nodes1: U[], nodes2: U[], options: NodeMetricsOptions<T>): Partial<Metric> {
+    const nodeMetrics = new GetNodeMetrics<T, U>(options);
+    const metrics1 = nodeMetrics.getNodeMetrics(nodes1);
+    const metrics2 = nodeMetrics.getNodeMetrics(nodes2);
+    return Object.fromEntries((<(keyof Metric)[]>Object.keys(metrics2))
+        .filter((metric) => typeof metrics1[metric] === 'number')
+        .map((metric) => [metric, <number>metrics2[metric] - <number>metrics1[metric]]));
+}
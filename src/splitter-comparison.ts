@@ -0,0 +1,199 @@
+import {
+    IntersectionsSplitterOptions,
+    SetIntersectionsSplitFunction,
+    SetNode,
+    Sets,
+} from './helpers';
+import {
+    GetNodeMetrics,
+    Metric,
+    NodeMetricsOptions,
+    Percentiles,
+} from './node-metrics';
+import { NodeValidationReport, validateNodes } from './node-validation';
+import { splitIntersectionsSetsGrouped, splitIntersectionsSetsShallow } from './shallow-intersections-splitter';
+import { splitIntersectionsSetsLattice } from './concept-lattice-splitter';
+import { BiggestIntersectionsSplitter } from './biggest-intersections-splitter';
+import { createInterningMapFunctions, WeightedIntersectionsSplitter, weightFunctions } from './weighted-intersections-splitter';
+
+/**
+ * The scores of the named objectives.
+ */
+const objectiveScores: Record<'requests' | 'maxRequests' | 'duplication', (metrics: Metric) => number> = {
+    requests: (metrics) => metrics.avgNodes,
+    maxRequests: (metrics) => (<Percentiles>metrics.requestsPerRoot).max,
+    duplication: (metrics) => <number>metrics.duplicationFactor,
+};
+
+/**
+ * A configured splitter to compare.
+ * @typedef SplitterCandidate
+ * @property name - The name of the candidate in the ranking
+ * @property splitFunction - The function to split the sets
+ */
+export type SplitterCandidate<T> = {
+    name: string;
+    splitFunction: SetIntersectionsSplitFunction<T, SetNode<T>>;
+};
+
+/**
+ * The objective to rank the results, the lowest score is the best:
+ * - `requests` - The average number of distinct nodes each root fetches
+ * - `maxRequests` - The maximum number of distinct nodes a root fetches
+ * - `duplication` - The stored elements divided by the unique elements
+ * - A function which returns the score of the metrics and nodes of a result
+ * @typedef SplitObjective
+ */
+export type SplitObjective<T> = 'requests' | 'maxRequests' | 'duplication' | ((metrics: Metric<SetNode<T>>, nodes: SetNode<T>[]) => number);
+
+/**
+ * The result of a candidate.
+ * @typedef SplitterResult
+ * @property name - The name of the candidate
+ * @property nodes - The SetNodes returned by the candidate
+ * @property metrics - The metrics of the nodes with `extendedMetrics`, undefined when the nodes are not valid
+ * @property validation - The report of `validateNodes`
+ * @property score - The score of the objective, `Infinity` when the nodes are not valid
+ * @property duration - The duration of the split in milliseconds
+ */
+export type SplitterResult<T> = {
+    name: string;
+    nodes: SetNode<T>[];
+    metrics?: Metric<SetNode<T>>;
+    validation: NodeValidationReport<T, SetNode<T>>;
+    score: number;
+    duration: number;
+};
+
+/**
+ * The result of `compareSplitters`.
+ * @typedef SplitterComparison
+ * @property ranking - The results of all candidates, the valid results by ascending score first, followed by the invalid results
+ * @property best - The valid result with the lowest score, undefined when no result is valid
+ */
+export type SplitterComparison<T> = {
+    ranking: SplitterResult<T>[];
+    best?: SplitterResult<T>;
+};
+
+/**
+ * Returns the default candidates of `compareSplitters` and `autoSplit`: the shallow, grouped and lattice split functions, the `BiggestIntersectionsSplitter`
+ * and the `WeightedIntersectionsSplitter` with several combinations of `weightFunctions`. The shallow split is left out when `minElements` is greater than 1.
+ * @param options - The options of the splitters
+ */
+export function createDefaultCandidates<T>(options: IntersectionsSplitterOptions<T> = {}): SplitterCandidate<T>[] {
+    // The map functions are created for each split, so that their intern table only includes the elements of one split.
+    const createWeighted = (
+        name: string,
+        primaryWeight: keyof typeof weightFunctions,
+        secondaryWeight: keyof typeof weightFunctions,
+    ): SplitterCandidate<T> => ({
+        name,
+        splitFunction: (sets) => new WeightedIntersectionsSplitter(
+            createInterningMapFunctions<T>(),
+            weightFunctions[primaryWeight],
+            weightFunctions[secondaryWeight],
+            options,
+        ).splitSets(sets),
+    });
+    // The shallow split only creates nodes of one element, so it is no candidate when more elements are required.
+    const shallowCandidates: SplitterCandidate<T>[] = (options.minElements ?? 1) > 1 ? [] : [
+        { name: 'shallow', splitFunction: (sets) => splitIntersectionsSetsShallow(sets, options) },
+    ];
+    return [
+        ...shallowCandidates,
+        { name: 'grouped', splitFunction: (sets) => splitIntersectionsSetsGrouped(sets, options) },
+        { name: 'lattice', splitFunction: (sets) => splitIntersectionsSetsLattice(sets, options) },
+        { name: 'biggest', splitFunction: new BiggestIntersectionsSplitter<T>(false, options).splitSets },
+        createWeighted('weighted elementsWeight/setsCount', 'elementsWeight', 'setsCount'),
+        createWeighted('weighted setsCount/elementsWeight', 'setsCount', 'elementsWeight'),
+        createWeighted('weighted productSetsElementsWeight/setsCount', 'productSetsElementsWeight', 'setsCount'),
+    ];
+}
+
+/**
+ * Splits the sets with each candidate, validates and measures each result and ranks the results by the objective. The metrics are calculated by
+ * `GetNodeMetrics` with `extendedMetrics`. Results which are not valid, e.g. of an `OverFetchIntersectionsSplitter`, are not measured and ranked last.
+ * @param sets - The set of sets to split
+ * @param candidates - The splitters to compare
+ * @param objective - The objective to rank the results
+ * @param options - The options of the metrics
+ */
+export function compareSplitters<T>(
+    sets: Sets<T>,
+    candidates: SplitterCandidate<T>[],
+    objective: SplitObjective<T> = 'requests',
+    options: NodeMetricsOptions<T> = {},
+): SplitterComparison<T> {
+    const nodeMetrics = new GetNodeMetrics<T, SetNode<T>>({ ...options, extendedMetrics: true });
+    const getScore = typeof objective === 'function' ? objective : objectiveScores[objective];
+    const results: SplitterResult<T>[] = candidates.map(({name, splitFunction}) => {
+        const startTime = Date.now();
+        const nodes = splitFunction(sets);
+        const duration = Date.now() - startTime;
+        const validation = validateNodes<T, SetNode<T>>(nodes);
+        if (!validation.valid) {
+            return {
+                name, nodes, validation, score: Infinity, duration,
+            };
+        }
+        const metrics = nodeMetrics.getNodeMetrics(nodes);
+        return {
+            name,
+            nodes,
+            metrics,
+            validation,
+            score: getScore(metrics, nodes),
+            duration,
+        };
+    });
+    const ranking = [...results].sort((a, b) => Number(b.validation.valid) - Number(a.validation.valid)
+        || (a.validation.valid ? a.score - b.score : 0));
+    return {
+        ranking,
+        best: ranking.find(({validation}) => validation.valid),
+    };
+}
+
+/**
+ * Splits the sets with all candidates and returns the valid nodes with the lowest score of the objective.
+ * @param sets - The set of sets to split
+ * @param objective - The objective to select the result
+ * @param candidates - The splitters to compare, default are the candidates of `createDefaultCandidates`
+ */
+export function autoSplit<T>(sets: Sets<T>, objective: SplitObjective<T> = 'requests', candidates = createDefaultCandidates<T>()): SetNode<T>[] {
+    const { best } = compareSplitters(sets, candidates, objective);
+    if (!best) {
+        throw new Error('No candidate returned valid nodes');
+    }
+    return best.nodes;
+}
+
+/**
+ * Formats the ranking of `compareSplitters` as a text table with the rank, name, score, validity, number of nodes, requests per root, duplication and
+ * duration of each result.
+ * @param comparison - The result of `compareSplitters`
+ */
+export function formatSplitterComparison<T>({ranking}: SplitterComparison<T>): string {
+    const rows = [
+        ['rank', 'name', 'score', 'valid', 'nodes', 'requests', 'duplication', 'ms'],
+        ...ranking.map(({
+            name, nodes, metrics, validation, score, duration,
+        }, i) => [
+            String(i + 1),
+            name,
+            formatNumber(score),
+            validation.valid ? 'yes' : 'no',
+            String(nodes.length),
+            metrics ? formatNumber(metrics.avgNodes) : '-',
+            metrics ? formatNumber(<number>metrics.duplicationFactor) : '-',
+            String(duration),
+        ]),
+    ];
+    const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+    return rows.map((row) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd()).join('\n');
+}
+
+function formatNumber(value: number): string {
+    return String(Math.round(value * 100) / 100);
+}
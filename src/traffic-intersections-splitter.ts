@@ -0,0 +1,68 @@
+import {
+    convertArraysToSetsAndUseSplitFunction,
+    createKeyableArraySplitFunction,
+    createKeyableSetSplitFunction,
+    getExpectedDownloadsPerVisit,
+    KeyableArrayIntersectionsSplitFunction,
+    KeyableSetIntersectionsSplitFunction,
+    ArrayNode,
+    Arrays,
+    RootFrequencyFunction,
+    SetNode,
+    Sets,
+} from './helpers';
+import { CostSplitterOptions, splitSetsByCost } from './cost-split';
+
+/**
+ * The options of the class `TrafficIntersectionsSplitter`.
+ * @typedef TrafficSplitterOptions
+ * @property visitsPerSession - The number of visits of a user, while the downloaded nodes are cached. Default is 10.
+ * @property requestCost - The cost of each downloaded node in the unit of the element weights, e.g. the overhead of a request in bytes. Default is 0.
+ */
+export type TrafficSplitterOptions<T> = CostSplitterOptions<T> & {
+    visitsPerSession?: number;
+    requestCost?: number;
+};
+
+/**
+ * Class to split the intersections of sets by the expected weight of the elements downloaded per visit, when the roots are visited with different
+ * frequencies. A node shared by often visited roots is downloaded once and cached, so that splitting it out lowers the payload of the other roots which
+ * include its elements. An intersection is only split out, when it lowers the expected payload including the `requestCost` of the new node.
+ */
+export class TrafficIntersectionsSplitter<T> {
+    /**
+     * @param rootFrequency - The function which returns how often each root is visited
+     * @param options - The options of the split. The `elementWeight` should be the size of the elements in the same unit as `requestCost`.
+     */
+    constructor(
+        private rootFrequency: RootFrequencyFunction<T>,
+        private options: TrafficSplitterOptions<T> = {},
+    ) {}
+
+    /**
+     * `SplitFunction` to pull out the intersecting elements. When keyed collections are provided a `KeyedSplitResult` is returned.
+     * @param sets - The set of sets or the keyed collections.
+     */
+    public splitSets: KeyableSetIntersectionsSplitFunction<T, SetNode<T>> = createKeyableSetSplitFunction((
+        sets: Sets<T>,
+        keys?: unknown[],
+    ): SetNode<T>[] => {
+        const { visitsPerSession = 10, requestCost = 0 } = this.options;
+        const frequencies = [...sets].map((set, i) => this.rootFrequency(set, i, keys?.[i]));
+        const frequencySum = frequencies.reduce((sum, frequency) => sum + frequency, 0);
+        const probabilities = frequencies.map((frequency) => (frequencySum > 0 ? frequency / frequencySum : 0));
+        return splitSetsByCost(sets, (restWeight, rootIndices) => {
+            const probability = rootIndices.reduce((sum, rootIndex) => sum + probabilities[rootIndex], 0);
+            return (restWeight + requestCost) * getExpectedDownloadsPerVisit(probability, visitsPerSession);
+        }, this.options);
+    });
+
+    /**
+     * `SplitFunction` to pull out the intersecting elements. When keyed collections are provided a `KeyedSplitResult` is returned.
+     * @param arrays - The array of arrays or the keyed collections.
+     */
+    public splitArrays: KeyableArrayIntersectionsSplitFunction<T, ArrayNode<T>> = createKeyableArraySplitFunction((
+        arrays: Arrays<T>,
+        keys?: unknown[],
+    ): ArrayNode<T>[] => convertArraysToSetsAndUseSplitFunction(arrays, this.splitSets, keys));
+}
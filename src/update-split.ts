@@ -0,0 +1,208 @@
+import {
+    createNodeId,
+    SetIntersectionsSplitFunction,
+    SetNode,
+    SplitterOptions,
+} from './helpers';
+import { splitIntersectionsSetsGrouped } from './shallow-intersections-splitter';
+
+/**
+ * The changes of the root sets of a previous split.
+ * @typedef SetChanges
+ * @property added - The new root sets
+ * @property removed - The root sets of the previous split which are removed
+ * @property modified - A map from root sets of the previous split to the sets which replace them
+ */
+export type SetChanges<T> = {
+    added?: Set<T>[];
+    removed?: Set<T>[];
+    modified?: Map<Set<T>, Set<T>>;
+};
+
+/**
+ * The options of `updateSplit`.
+ * @typedef UpdateSplitOptions
+ * @property splitFunction - The function to split the elements of the added and modified roots which are not in any reused node, default is
+ * `splitIntersectionsSetsGrouped` with the same `idFunction` and `minElements`.
+ */
+export type UpdateSplitOptions<T> = SplitterOptions<T> & {
+    splitFunction?: SetIntersectionsSplitFunction<T, SetNode<T>>;
+};
+
+/**
+ * The result of `updateSplit`.
+ * @typedef UpdateSplitResult
+ * @property nodes - The updated nodes, the roots first in the previous order followed by the added roots
+ * @property created - The added roots and the new generated nodes
+ * @property removed - The nodes of the previous split which are not used anymore, except the previous nodes of the modified roots
+ * @property changed - The updated nodes of the modified roots and of the unchanged roots whose `rest` was split again
+ */
+export type UpdateSplitResult<T> = {
+    nodes: SetNode<T>[];
+    created: SetNode<T>[];
+    removed: SetNode<T>[];
+    changed: SetNode<T>[];
+};
+
+/**
+ * Updates a previous split after root sets were added, removed or modified, so that the unchanged nodes keep their elements, imports and ids. A modified
+ * root keeps the nodes it imported directly or transitively as long as it includes all of their elements, and the added and modified roots import the
+ * biggest previous nodes which they include. Only the remaining elements of these roots are split again by the `splitFunction`, which has to return a root
+ * node with the same elements for each remaining set. The `rest` of an unchanged root is split again together with them when it shares elements with
+ * them, so that these elements are not stored in both roots. The nodes of the previous split are copied and not changed, nodes which are not imported
+ * anymore are removed.
+ * @param previousNodes - The SetNodes of the previous split
+ * @param changes - The added, removed and modified root sets
+ * @param options - The options of the split of the remaining elements
+ */
+export function updateSplit<T>(previousNodes: SetNode<T>[], changes: SetChanges<T>, options: UpdateSplitOptions<T> = {}): UpdateSplitResult<T> {
+    const {
+        idFunction = createNodeId,
+        minElements = 1,
+        splitFunction = (sets) => splitIntersectionsSetsGrouped(sets, {idFunction, minElements}),
+    } = options;
+    const { added = [], removed = [], modified = new Map() } = changes;
+    const previousRoots = previousNodes.filter(({depth}) => depth === 0);
+    [...removed, ...modified.keys()].forEach((set) => {
+        if (!previousRoots.some((rootNode) => rootNode.set === set)) {
+            throw new Error('Changed set is not a root set of the previous split');
+        }
+    });
+    const copiedNodes: Map<SetNode<T>, SetNode<T>> = new Map();
+    const copyNode = (node: SetNode<T>): SetNode<T> => {
+        let copiedNode = copiedNodes.get(node);
+        if (!copiedNode) {
+            copiedNode = { ...node, rest: new Set(node.rest), imports: node.imports.map(copyNode) };
+            copiedNodes.set(node, copiedNode);
+        }
+        return copiedNode;
+    };
+    const previousGenerated = previousNodes.filter(({depth}) => depth !== 0).sort((a, b) => b.set.size - a.set.size);
+    const rootNodes: SetNode<T>[] = [];
+    const unchangedRoots: SetNode<T>[] = [];
+    const changed: SetNode<T>[] = [];
+    const created: SetNode<T>[] = [];
+    const coverRoot = (set: Set<T>, previousImports: SetNode<T>[]): SetNode<T> => {
+        const imports: SetNode<T>[] = [];
+        const covered: Set<T> = new Set();
+        const useNode = (node: SetNode<T>): boolean => {
+            if ([...node.set].some((element) => !set.has(element) || covered.has(element))) {
+                return false;
+            }
+            node.set.forEach((element) => covered.add(element));
+            imports.push(node);
+            return true;
+        };
+        const useImportedNodes = (nodes: SetNode<T>[]) => {
+            nodes.forEach((node) => {
+                if (!useNode(node)) {
+                    useImportedNodes(node.imports);
+                }
+            });
+        };
+        useImportedNodes(previousImports);
+        previousGenerated.forEach(useNode);
+        const rest = new Set([...set].filter((element) => !covered.has(element)));
+        return {
+            set, id: idFunction([...set]), rest, depth: 0, imports: imports.map(copyNode),
+        };
+    };
+    previousRoots.forEach((rootNode) => {
+        if (removed.includes(rootNode.set)) {
+            return;
+        }
+        const modifiedSet = modified.get(rootNode.set);
+        if (modifiedSet) {
+            const modifiedNode = coverRoot(modifiedSet, rootNode.imports);
+            changed.push(modifiedNode);
+            rootNodes.push(modifiedNode);
+        } else {
+            const unchangedNode = copyNode(rootNode);
+            unchangedRoots.push(unchangedNode);
+            rootNodes.push(unchangedNode);
+        }
+    });
+    added.forEach((set) => {
+        const addedNode = coverRoot(set, []);
+        created.push(addedNode);
+        rootNodes.push(addedNode);
+    });
+    const remainingElements = new Set([...changed, ...created].flatMap(({rest}) => [...rest]));
+    const splitUnchangedRoots = unchangedRoots.filter(({rest}) => [...rest].some((element) => remainingElements.has(element)));
+    const splitRootNodes = [...changed, ...created, ...splitUnchangedRoots];
+    const remainingRests = splitRootNodes.map(({rest}) => rest);
+    const splitNodes = splitFunction(new Set(remainingRests));
+    const newGenerated = splitNodes.filter(({depth}) => depth !== 0);
+    const splitRoots = findSplitRoots(splitNodes, remainingRests);
+    splitRootNodes.forEach((rootNode, i) => {
+        if (splitRoots[i].imports.length > 0 && splitUnchangedRoots.includes(rootNode)) {
+            changed.push(rootNode);
+        }
+        rootNode.rest = splitRoots[i].rest;
+        rootNode.imports.push(...splitRoots[i].imports);
+    });
+    const reachableNodes = getReachableNodes(rootNodes);
+    const generatedNodes = [...previousNodes.filter(({depth}) => depth !== 0).map(copyNode), ...newGenerated].filter((node) => reachableNodes.has(node));
+    const nodes = [...rootNodes, ...generatedNodes];
+    updateDepths(rootNodes);
+    created.push(...newGenerated.filter((node) => reachableNodes.has(node)));
+    const usedPreviousNodes = new Set([...copiedNodes.entries()].filter(([, node]) => reachableNodes.has(node)).map(([previousNode]) => previousNode));
+    return {
+        nodes,
+        created,
+        removed: previousNodes.filter((node) => !usedPreviousNodes.has(node) && !modified.has(node.set)),
+        changed,
+    };
+}
+
+/**
+ * Returns the root node of the split for each remaining rest. The root nodes are matched by their position, when the split function returns the roots in
+ * the order of the sets, otherwise by their elements.
+ * @param splitNodes - The nodes returned by the split function
+ * @param remainingRests - The sets provided to the split function
+ */
+function findSplitRoots<T>(splitNodes: SetNode<T>[], remainingRests: Set<T>[]): SetNode<T>[] {
+    const splitRoots = splitNodes.filter(({depth}) => depth === 0);
+    const unmatchedRoots = new Set(splitRoots);
+    const hasElements = ({set}: SetNode<T>, rest: Set<T>) => set.size === rest.size && [...set].every((element) => rest.has(element));
+    return remainingRests.map((rest, i) => {
+        const splitRoot = unmatchedRoots.has(splitRoots[i]) && hasElements(splitRoots[i], rest)
+            ? splitRoots[i]
+            : [...unmatchedRoots].find((rootNode) => hasElements(rootNode, rest));
+        if (!splitRoot) {
+            throw new Error(`The split function returned no root node with the elements ${[...rest].map(String).join(', ')}`);
+        }
+        unmatchedRoots.delete(splitRoot);
+        return splitRoot;
+    });
+}
+
+function getReachableNodes<T>(rootNodes: SetNode<T>[]): Set<SetNode<T>> {
+    const reachableNodes: Set<SetNode<T>> = new Set();
+    const nextNodes = [...rootNodes];
+    while (nextNodes.length > 0) {
+        const node = <SetNode<T>>nextNodes.pop();
+        if (!reachableNodes.has(node)) {
+            reachableNodes.add(node);
+            nextNodes.push(...node.imports);
+        }
+    }
+    return reachableNodes;
+}
+
+/**
+ * Sets the depth of each node to the maximum distance to a root node.
+ */
+function updateDepths<T>(rootNodes: SetNode<T>[]): void {
+    const depths: Map<SetNode<T>, number> = new Map();
+    const setDepth = (node: SetNode<T>, depth: number) => {
+        if ((depths.get(node) ?? -1) < depth) {
+            depths.set(node, depth);
+            node.imports.forEach((importedNode) => setDepth(importedNode, depth + 1));
+        }
+    };
+    rootNodes.forEach((rootNode) => setDepth(rootNode, 0));
+    depths.forEach((depth, node) => {
+        node.depth = depth;
+    });
+}
@@ -2,14 +2,23 @@ import {
     cloneSet,
     intersectSets,
     convertArraysToSetsAndUseSplitFunction,
+    createKeyableArraySplitFunction,
+    createKeyableSetSplitFunction,
+    createNodeId,
+    getElementsWeight,
     PrimitiveType,
-    SetIntersectionsSplitFunction,
-    ArrayIntersectionsSplitFunction,
+    KeyableSetIntersectionsSplitFunction,
+    KeyableArrayIntersectionsSplitFunction,
     ArrayNode,
     SetNode,
     Arrays,
+    ElementWeightFunction,
+    IntersectionEngine,
+    IntersectionsSplitterOptions,
+    NodeIdFunction,
     Sets,
 } from './helpers';
+import { BitSetIndex } from './bitset';
 
 /**
  * @typedef ArrayJoiner - Bijective function to map the elements of each array to a primitive type.
@@ -43,32 +52,102 @@ export const mapFunctionsDict: {
     },
 };
 
+/**
+ * Creates a bijective mapping for elements of any type, also objects which are compared by their reference. Each distinct element gets an integer id when
+ * it is mapped for the first time, the ids are kept as long as the returned `MapFunctions` are used.
+ */
+export function createInterningMapFunctions<T>(): MapFunctions<T, string> {
+    const elementIds: Map<T, number> = new Map();
+    const elements: T[] = [];
+    const getElementId = (element: T): number => {
+        let elementId = elementIds.get(element);
+        if (elementId === undefined) {
+            elementId = elements.length;
+            elementIds.set(element, elementId);
+            elements.push(element);
+        }
+        return elementId;
+    };
+    return {
+        joiner: (array: T[]): string => array.map(getElementId).sort((a, b) => a - b).join(','),
+        splitter: (primitive: string): T[] => (primitive === '' ? [] : primitive.split(',').map((str) => elements[parseInt(str, 10)])),
+    };
+}
+
+/**
+ * The parameters of a `WeightFunction`. The properties which describe the nodes are calculated only when they are read, they are only valid during the
+ * call of the weight function.
+ * @typedef WeightFunctionParameters
+ * @property intersectingElementsCount - The number of elements of the intersection.
+ * @property intersectingElementsWeight - The sum of the weights of the elements of the intersection, which is the number of elements when no
+ * `elementWeight` is provided in the options.
+ * @property intersectingSetsCount - The number of sets which include the intersection.
+ * @property intersectingElements - The elements of the intersection.
+ * @property intersectingNodes - The current nodes, roots or created nodes, of the sets which include the intersection. Their `rest` changes during the
+ * split and must not be used for the weight.
+ * @property intersectingRoots - The root nodes whose set includes all elements of the intersection.
+ * @property intersectingRootKeys - The keys of `intersectingRoots`, when keyed collections are split, otherwise an empty array.
+ * @property depth - The depth the node of the intersection would get when it is created from `intersectingNodes`.
+ * @property rootsCount - The number of all root nodes.
+ */
+export type WeightFunctionParameters<T = unknown> = {
+    intersectingElementsCount: number;
+    intersectingElementsWeight: number;
+    intersectingSetsCount: number;
+    intersectingElements: T[];
+    intersectingNodes: SetNode<T>[];
+    intersectingRoots: SetNode<T>[];
+    intersectingRootKeys: unknown[];
+    depth: number;
+    rootsCount: number;
+};
+
 /**
  * The weight function to be used for the construction of the `IntersectionByWeight` class. The intersectingSetsCount is not accurate when there are
  * intersections which are subsets of other intersections and will therefore mostly not find the optimal solution to this strategy. The correct implementation
- * slows the execution time too much down.
+ * slows the execution time too much down, it can be enabled by the option `exactSetCounts`.
  */
-export type WeightFunction = ({intersectingElementsCount, intersectingSetsCount}: {intersectingElementsCount: number, intersectingSetsCount: number}) => number;
+export type WeightFunction<T = unknown> = (parameters: WeightFunctionParameters<T>) => number;
 
 /**
  * Some simple weight functions for convenience.
  */
 export const weightFunctions: {
     elementsCount: WeightFunction,
+    elementsWeight: WeightFunction,
     setsCount: WeightFunction,
     productSetsElementsCount: WeightFunction,
+    productSetsElementsWeight: WeightFunction,
     elementsCountReverse: WeightFunction,
+    elementsWeightReverse: WeightFunction,
     setsCountReverse: WeightFunction,
     productSetsElementsCountReverse: WeightFunction,
+    productSetsElementsWeightReverse: WeightFunction,
 } = {
     elementsCount: ({intersectingElementsCount}) => intersectingElementsCount,
+    elementsWeight: ({intersectingElementsWeight}) => intersectingElementsWeight,
     setsCount: ({intersectingSetsCount}) => intersectingSetsCount,
     productSetsElementsCount: ({intersectingElementsCount, intersectingSetsCount}) => intersectingElementsCount * intersectingSetsCount,
+    productSetsElementsWeight: ({intersectingElementsWeight, intersectingSetsCount}) => intersectingElementsWeight * intersectingSetsCount,
     elementsCountReverse: ({intersectingElementsCount}) => -intersectingElementsCount,
+    elementsWeightReverse: ({intersectingElementsWeight}) => -intersectingElementsWeight,
     setsCountReverse: ({intersectingSetsCount}) => -intersectingSetsCount,
     productSetsElementsCountReverse: (
         {intersectingElementsCount, intersectingSetsCount},
     ) => -intersectingElementsCount * intersectingSetsCount,
+    productSetsElementsWeightReverse: (
+        {intersectingElementsWeight, intersectingSetsCount},
+    ) => -intersectingElementsWeight * intersectingSetsCount,
+};
+
+/**
+ * The options of the class `WeightedIntersectionsSplitter`.
+ * @typedef WeightedIntersectionsSplitterOptions
+ * @property exactSetCounts - When true, `intersectingSetsCount` is the number of all current sets which include the intersection, also the sets of created
+ * nodes. The counts are calculated again for every created node, which slows the splitting down. Default is false.
+ */
+export type WeightedIntersectionsSplitterOptions<T> = IntersectionsSplitterOptions<T> & {
+    exactSetCounts?: boolean;
 };
 
 type IntersectionMap<T, U extends PrimitiveType> = Map<U, [Set<T>, Set<T>][]>;
@@ -79,6 +158,58 @@ type SetToIntersectionMap<T, U extends PrimitiveType> = Map<Set<T>, Set<U>>;
 
 type WeightIntersectionMap <U extends PrimitiveType> = Map<number, Set<U>>;
 
+/**
+ * The state of a single split, which is shared by the methods of `WeightedIntersectionsSplitter`.
+ */
+type SplitState<T> = {
+    intersectSets: (set1: Set<T>, set2: Set<T>) => Set<T>;
+    updateSet: (set: Set<T>) => void;
+    setNodeMap: Map<Set<T>, SetNode<T>>;
+    rootNodes: SetNode<T>[];
+    rootKeys: Map<SetNode<T>, unknown>;
+};
+
+/**
+ * The parameters of a `WeightFunction`, where the properties describing the nodes are only calculated when they are read. The weight functions are called
+ * very often, so that creating these properties for every call would slow the split down. The properties are only valid during the call.
+ */
+class LazyWeightFunctionParameters<T> implements WeightFunctionParameters<T> {
+    public readonly intersectingElementsCount: number;
+
+    public readonly intersectingSetsCount: number;
+
+    public readonly rootsCount: number;
+
+    constructor(
+        public readonly intersectingElements: T[],
+        public readonly intersectingElementsWeight: number,
+        private readonly intersectingSets: Set<T>[] | Map<Set<T>, number>,
+        private readonly splitState: SplitState<T>,
+    ) {
+        this.intersectingElementsCount = intersectingElements.length;
+        this.intersectingSetsCount = Array.isArray(intersectingSets) ? intersectingSets.length : intersectingSets.size;
+        this.rootsCount = splitState.rootNodes.length;
+    }
+
+    get intersectingNodes(): SetNode<T>[] {
+        const intersectingSets = Array.isArray(this.intersectingSets) ? this.intersectingSets : [...this.intersectingSets.keys()];
+        return intersectingSets.map((set) => <SetNode<T>> this.splitState.setNodeMap.get(set));
+    }
+
+    get intersectingRoots(): SetNode<T>[] {
+        return this.splitState.rootNodes.filter(({set}) => this.intersectingElements.every((element) => set.has(element)));
+    }
+
+    get intersectingRootKeys(): unknown[] {
+        const { rootKeys } = this.splitState;
+        return this.intersectingRoots.filter((rootNode) => rootKeys.has(rootNode)).map((rootNode) => rootKeys.get(rootNode));
+    }
+
+    get depth(): number {
+        return Math.max(0, ...this.intersectingNodes.map(({depth}) => depth + 1));
+    }
+}
+
 /**
  * Class to pull out intersecting elements of sets out into their own set by weight functions. This class keeps record of all intersections and
  * therefore can behave not optimal regarding execution time and memory usage in certain scenarios. This function relies heavily on side effects.
@@ -86,32 +217,79 @@ type WeightIntersectionMap <U extends PrimitiveType> = Map<number, Set<U>>;
  * set is stored in `SetObj.set`. This function needs an bijective mapping between the elements of each set and a `PrimitiveType`.
  */
 export class WeightedIntersectionsSplitter<T, U extends PrimitiveType> {
+    private readonly idFunction: NodeIdFunction<T>;
+
+    private readonly elementWeight?: ElementWeightFunction<T>;
+
+    private readonly minElements: number;
+
+    private readonly minWeight: number;
+
+    private readonly maxDepth: number;
+
+    private readonly maxGeneratedNodes: number;
+
+    private readonly engine: IntersectionEngine;
+
+    private readonly exactSetCounts: boolean;
+
     /**
      * @param mapFunctions - The bijective mapping and reverse bijective mapping from the element of the arrays to `PrimitiveType`.
-     * @param primaryWeight - The primary weight function, default is the number of elements in the set.
+     * @param primaryWeight - The primary weight function, default is the weight of the elements in the set, which is the number of elements when no
+     * `elementWeight` is provided in the options.
      * @param secondaryWeight - The secondary weight function to use when the primary weight function results in a maximum for more than one set.
      * Default is the number of sets which include the intersection.
+     * @param options - The options of the split. Intersections below `minElements` or `minWeight` are skipped and the intersection with the next
+     * highest weight is split instead. The splitting stops when `maxGeneratedNodes` nodes are created.
      */
     constructor(
         private mapFunctions: MapFunctions<T, U>,
-        private primaryWeight: WeightFunction = weightFunctions.elementsCount,
-        private secondaryWeight: WeightFunction = weightFunctions.setsCount,
-    ) {}
+        private primaryWeight: WeightFunction<T> = weightFunctions.elementsWeight,
+        private secondaryWeight: WeightFunction<T> = weightFunctions.setsCount,
+        {
+            idFunction = createNodeId,
+            elementWeight,
+            minElements = 1,
+            minWeight = 0,
+            maxDepth = Infinity,
+            maxGeneratedNodes = Infinity,
+            engine = 'default',
+            exactSetCounts = false,
+        }: WeightedIntersectionsSplitterOptions<T> = {},
+    ) {
+        this.idFunction = idFunction;
+        this.elementWeight = elementWeight;
+        this.minElements = minElements;
+        this.minWeight = minWeight;
+        this.maxDepth = maxDepth;
+        this.maxGeneratedNodes = maxGeneratedNodes;
+        this.engine = engine;
+        this.exactSetCounts = exactSetCounts;
+    }
 
     /**
-     * `SplitFunction` to pull out the intersecting elements.
-     * @param sets - The set of sets.
+     * `SplitFunction` to pull out the intersecting elements. When keyed collections are provided a `KeyedSplitResult` is returned.
+     * @param sets - The set of sets or the keyed collections.
      */
-    public splitSets: SetIntersectionsSplitFunction<T, SetNode<T>> = (
+    public splitSets: KeyableSetIntersectionsSplitFunction<T, SetNode<T>> = createKeyableSetSplitFunction((
         sets: Sets<T>,
+        keys?: unknown[],
     ): SetNode<T>[] => {
         const { setNodeMap, clonedSets } = this.createSetObjMap(sets);
-        const intersectionMap = this.createIntersectionMap(clonedSets);
+        const splitState = this.createSplitState(setNodeMap, clonedSets, keys);
+        const intersectionMap = this.createIntersectionMap(this.maxDepth > 0 ? clonedSets : new Set(), splitState);
         const intersectionMapSet = this.createIntersectionMapSet(intersectionMap);
         const setToIntersectionMap = this.createSetToIntersectionMap(intersectionMapSet);
-        const weightIntersectionsMap = this.getWeightIntersectionsMap(intersectionMapSet);
-        while (intersectionMap.size > 0) {
-            const {highestWeightIntersection, highestWeight} = this.getHighestWeightIntersection(weightIntersectionsMap, intersectionMapSet);
+        const weightIntersectionsMap = this.getWeightIntersectionsMap(intersectionMapSet, splitState);
+        let generatedNodes = 0;
+        while (intersectionMap.size > 0 && generatedNodes < this.maxGeneratedNodes) {
+            const highestWeightIntersectionWithWeight = this.exactSetCounts
+                ? this.getHighestWeightIntersectionByExactSetCounts(intersectionMapSet, clonedSets, splitState)
+                : this.getHighestWeightIntersection(weightIntersectionsMap, intersectionMapSet, splitState);
+            if (!highestWeightIntersectionWithWeight) {
+                break;
+            }
+            const {highestWeightIntersection, highestWeight} = highestWeightIntersectionWithWeight;
             const intersectingSets: Sets<T> = new Set((<Map<Set<T>, number>>intersectionMapSet.get(highestWeightIntersection)).keys());
             const {otherAffectedIntersections, otherAffectedSets} = this.getOtherAffectedIntersections(
                 intersectingSets, setToIntersectionMap, highestWeightIntersection, intersectionMapSet,
@@ -126,10 +304,13 @@ export class WeightedIntersectionsSplitter<T, U extends PrimitiveType> {
                 setToIntersectionMap,
                 weightIntersectionsMap,
                 highestWeight,
+                splitState,
             );
             let depth = 1;
+            const newIntersectingElements = this.mapFunctions.splitter(highestWeightIntersection);
             const newIntersectingObj = <SetNode<T>>{
-                set: new Set(this.mapFunctions.splitter(highestWeightIntersection)),
+                set: new Set(newIntersectingElements),
+                id: this.idFunction(newIntersectingElements),
                 rest: new Set(this.mapFunctions.splitter(highestWeightIntersection)),
                 depth,
                 imports: [],
@@ -141,27 +322,45 @@ export class WeightedIntersectionsSplitter<T, U extends PrimitiveType> {
                 }
                 // The filter function removes as a side effect also from `set` in all objects which have a reference to `setNode.rest`!
                 this.filterFromSet(setNode.rest, (element) => !newIntersectingObj.set.has(element));
+                splitState.updateSet(setNode.rest);
                 setNode.imports.push(newIntersectingObj);
             });
             const highestWeightIntersectionElements = this.mapFunctions.splitter(highestWeightIntersection);
             otherAffectedSets.forEach((set) => {
                 if (highestWeightIntersectionElements.every((element) => set.has(element))) {
-                    depth = this.updateSetObj(set, setNodeMap, newIntersectingObj, depth);
+                    depth = this.updateSetObj(set, setNodeMap, newIntersectingObj, depth, splitState);
                 }
             });
             newIntersectingObj.depth = depth;
+            // Nodes at the maximum depth are not intersected with other sets and keep the elements they share with them.
+            const isSplittable = depth < this.maxDepth;
+            setNodeMap.set(newIntersectingObj.rest, newIntersectingObj);
             this.addUpdatedToMaps(
-                newIntersectingObj.rest, clonedSets, intersectingPairs, intersectionMap, intersectionMapSet, setToIntersectionMap, weightIntersectionsMap,
+                newIntersectingObj.rest,
+                isSplittable ? clonedSets : new Set(),
+                intersectingPairs,
+                intersectionMap,
+                intersectionMapSet,
+                setToIntersectionMap,
+                weightIntersectionsMap,
+                splitState,
             );
-            clonedSets.add(newIntersectingObj.rest);
-            setNodeMap.set(newIntersectingObj.rest, newIntersectingObj);
+            if (isSplittable) {
+                clonedSets.add(newIntersectingObj.rest);
+            }
+            generatedNodes++;
         }
         return Array.from(setNodeMap.values());
-    };
+    });
 
-    public splitArrays: ArrayIntersectionsSplitFunction<T, ArrayNode<T>> = (
+    /**
+     * `SplitFunction` to pull out the intersecting elements. When keyed collections are provided a `KeyedSplitResult` is returned.
+     * @param arrays - The array of arrays or the keyed collections.
+     */
+    public splitArrays: KeyableArrayIntersectionsSplitFunction<T, ArrayNode<T>> = createKeyableArraySplitFunction((
         arrays: Arrays<T>,
-    ): ArrayNode<T>[] => convertArraysToSetsAndUseSplitFunction(arrays, this.splitSets);
+        keys?: unknown[],
+    ): ArrayNode<T>[] => convertArraysToSetsAndUseSplitFunction(arrays, this.splitSets, keys));
 
     private createSetObjMap(sets: Sets<T>): {setNodeMap: Map<Set<T>, SetNode<T>>, clonedSets: Sets<T>} {
         const setNodeMap: Map<Set<T>, SetNode<T>> = new Map();
@@ -170,18 +369,37 @@ export class WeightedIntersectionsSplitter<T, U extends PrimitiveType> {
             const clonedSet = cloneSet(set);
             clonedSets.add(clonedSet);
             setNodeMap.set(clonedSet, {
-                set, rest: clonedSet, depth: 0, imports: [],
+                set, id: this.idFunction([...set]), rest: clonedSet, depth: 0, imports: [],
             });
         });
         return {setNodeMap, clonedSets};
     }
 
-    private createIntersectionMap(sets: Sets<T>) : IntersectionMap<T, U> {
+    private createSplitState(setNodeMap: Map<Set<T>, SetNode<T>>, sets: Sets<T>, keys: unknown[] = []): SplitState<T> {
+        const rootNodes = [...setNodeMap.values()];
+        const rootKeys: Map<SetNode<T>, unknown> = new Map(keys.map((key, i) => [rootNodes[i], key]));
+        if (this.engine === 'bitset') {
+            // The created nodes only include elements of the split sets, so that the index includes all elements of the rests of the created nodes.
+            const bitSetIndex = new BitSetIndex<T>(sets);
+            return {
+                intersectSets: (set1, set2) => bitSetIndex.intersectSets(set1, set2),
+                updateSet: (set) => bitSetIndex.update(set),
+                setNodeMap,
+                rootNodes,
+                rootKeys,
+            };
+        }
+        return {
+            intersectSets, updateSet: () => {}, setNodeMap, rootNodes, rootKeys,
+        };
+    }
+
+    private createIntersectionMap(sets: Sets<T>, splitState: SplitState<T>) : IntersectionMap<T, U> {
         const intersectionMap: IntersectionMap<T, U> = new Map();
         const orderedSets = [...sets];
         orderedSets.forEach((set1, i) => {
             orderedSets.slice(i + 1).forEach((set2) => {
-                const intersectedSet = intersectSets(set1, set2);
+                const intersectedSet = splitState.intersectSets(set1, set2);
                 if (intersectedSet.size > 0) {
                     const intersectionId = this.mapFunctions.joiner([...intersectedSet]);
                     const intersectionMapEntry = intersectionMap.get(intersectionId);
@@ -236,12 +454,10 @@ export class WeightedIntersectionsSplitter<T, U extends PrimitiveType> {
         return setToIntersectionMap;
     }
 
-    private getWeightIntersectionsMap(intersectionMapSet: IntersectionMapSet<T, U>): WeightIntersectionMap<U> {
+    private getWeightIntersectionsMap(intersectionMapSet: IntersectionMapSet<T, U>, splitState: SplitState<T>): WeightIntersectionMap<U> {
         const weightIntersectionMap: WeightIntersectionMap<U> = new Map();
         intersectionMapSet.forEach((mapSet, intersection) => {
-            const intersectingElementsCount = this.mapFunctions.splitter(intersection).length;
-            const intersectingSetsCount = mapSet.size;
-            const weight = this.primaryWeight({intersectingElementsCount, intersectingSetsCount});
+            const weight = this.primaryWeight(this.getWeightFunctionParameters(intersection, mapSet, splitState));
             const intersections = weightIntersectionMap.get(weight);
             if (!intersections) {
                 weightIntersectionMap.set(weight, new Set([intersection]));
@@ -255,23 +471,85 @@ export class WeightedIntersectionsSplitter<T, U extends PrimitiveType> {
     private getHighestWeightIntersection(
         weightIntersectionsMap: WeightIntersectionMap<U>,
         intersectionMapSet: IntersectionMapSet<T, U>,
-    ): {highestWeightIntersection: U, highestWeight: number} {
-        const highestWeight = Math.max(...Array.from(weightIntersectionsMap.keys()));
-        const maxWeightIntersections = <Set<U>>weightIntersectionsMap.get(highestWeight);
+        splitState: SplitState<T>,
+    ): {highestWeightIntersection: U, highestWeight: number} | undefined {
+        const weights = this.minElements > 1 || this.minWeight > 0
+            ? Array.from(weightIntersectionsMap.keys()).sort((a, b) => b - a)
+            : [Math.max(...Array.from(weightIntersectionsMap.keys()))];
+        /* eslint-disable no-restricted-syntax */
+        for (const highestWeight of weights) {
+            const maxWeightIntersections = [...<Set<U>>weightIntersectionsMap.get(highestWeight)]
+                .filter((intersection) => this.isSplittableIntersection(intersection));
+            if (maxWeightIntersections.length > 0) {
+                let maxSecondaryWeight = -Infinity;
+                let [highestWeightIntersection] = maxWeightIntersections;
+                if (maxWeightIntersections.length > 1) {
+                    maxWeightIntersections.forEach((intersection) => {
+                        const secondaryWeight = this.secondaryWeight(this.getWeightFunctionParameters(
+                            intersection,
+                            <Map<Set<T>, number>>intersectionMapSet.get(intersection),
+                            splitState,
+                        ));
+                        if (secondaryWeight > maxSecondaryWeight) {
+                            [maxSecondaryWeight, highestWeightIntersection] = [secondaryWeight, intersection];
+                        }
+                    });
+                }
+                return {highestWeightIntersection, highestWeight};
+            }
+        }
+        /* eslint-enable no-restricted-syntax */
+        return undefined;
+    }
+
+    /**
+     * Returns the same as `getHighestWeightIntersection`, but the weights are calculated with the number of all current sets which include the
+     * intersection. The returned `highestWeight` is the weight by which the intersection is stored in the `WeightIntersectionMap`.
+     */
+    private getHighestWeightIntersectionByExactSetCounts(
+        intersectionMapSet: IntersectionMapSet<T, U>,
+        sets: Sets<T>,
+        splitState: SplitState<T>,
+    ): {highestWeightIntersection: U, highestWeight: number} | undefined {
+        let highestWeightIntersection: U | undefined;
+        let maxPrimaryWeight = -Infinity;
         let maxSecondaryWeight = -Infinity;
-        let highestWeightIntersection: U = maxWeightIntersections.keys().next().value;
-        if (maxWeightIntersections.size > 1) {
-            maxWeightIntersections.forEach((intersection) => {
-                const intersectingElementsCount = this.mapFunctions.splitter(intersection).length;
-                const intersectingSetsCount = (<Map<Set<T>, number>>intersectionMapSet.get(intersection)).size;
-                const secondaryWeight = this.secondaryWeight({intersectingElementsCount, intersectingSetsCount});
+        intersectionMapSet.forEach((_, intersection) => {
+            if (!this.isSplittableIntersection(intersection)) {
+                return;
+            }
+            const intersectingElements = this.mapFunctions.splitter(intersection);
+            const intersectingSets = [...sets].filter((set) => intersectingElements.every((element) => set.has(element)));
+            const parameters = this.getWeightFunctionParameters(intersection, intersectingSets, splitState);
+            const primaryWeight = this.primaryWeight(parameters);
+            if (primaryWeight > maxPrimaryWeight || highestWeightIntersection === undefined) {
+                [highestWeightIntersection, maxPrimaryWeight, maxSecondaryWeight] = [intersection, primaryWeight, this.secondaryWeight(parameters)];
+            } else if (primaryWeight === maxPrimaryWeight) {
+                const secondaryWeight = this.secondaryWeight(parameters);
                 if (secondaryWeight > maxSecondaryWeight) {
-                    [maxSecondaryWeight, highestWeightIntersection] = [secondaryWeight, intersection];
+                    [highestWeightIntersection, maxSecondaryWeight] = [intersection, secondaryWeight];
                 }
-            });
-            return {highestWeightIntersection, highestWeight};
+            }
+        });
+        if (highestWeightIntersection === undefined) {
+            return undefined;
+        }
+        return {
+            highestWeightIntersection,
+            highestWeight: this.primaryWeight(this.getWeightFunctionParameters(
+                highestWeightIntersection,
+                <Map<Set<T>, number>>intersectionMapSet.get(highestWeightIntersection),
+                splitState,
+            )),
+        };
+    }
+
+    private isSplittableIntersection(intersection: U): boolean {
+        if (this.minElements <= 1 && this.minWeight <= 0) {
+            return true;
         }
-        return {highestWeightIntersection, highestWeight};
+        const intersectingElements = this.mapFunctions.splitter(intersection);
+        return intersectingElements.length >= this.minElements && getElementsWeight(intersectingElements, this.elementWeight) >= this.minWeight;
     }
 
     private getOtherAffectedIntersections(
@@ -281,12 +559,12 @@ export class WeightedIntersectionsSplitter<T, U extends PrimitiveType> {
         intersectionMapSet: IntersectionMapSet<T, U>,
     ): {otherAffectedIntersections: Set<U>, otherAffectedSets: Sets<T>} {
         const otherAffectedIntersections: Set<U> = new Set();
-        const highestWeightedIntersectionElements = this.mapFunctions.splitter(highestWeightIntersection);
+        const highestWeightedIntersectionElements = new Set(this.mapFunctions.splitter(highestWeightIntersection));
         const otherAffectedSets: Sets<T> = new Set();
         intersectingSets.forEach((set) => {
             const affectedIntersections = <Set<U>>setToIntersectionMap.get(set);
             affectedIntersections.forEach((intersection) => {
-                if (this.mapFunctions.splitter(intersection).some((element) => highestWeightedIntersectionElements.includes(element))) {
+                if (this.mapFunctions.splitter(intersection).some((element) => highestWeightedIntersectionElements.has(element))) {
                     otherAffectedIntersections.add(intersection);
                     const affectedSets = new Set((<Map<Set<T>, number>>intersectionMapSet.get(intersection)).keys());
                     affectedSets.forEach((affectedSet) => {
@@ -311,6 +589,7 @@ export class WeightedIntersectionsSplitter<T, U extends PrimitiveType> {
         setToIntersectionMap: SetToIntersectionMap<T, U>,
         weightIntersectionMap: WeightIntersectionMap<U>,
         highestWeight: number,
+        splitState: SplitState<T>,
     ): [Set<T>, Set<T>][] {
         intersectionMap.delete(highestWeightIntersection);
         intersectionMapSet.delete(highestWeightIntersection);
@@ -327,8 +606,10 @@ export class WeightedIntersectionsSplitter<T, U extends PrimitiveType> {
                     this.removeOtherAffectedSetFromMaps(
                         intersectionMapSet,
                         otherAffectedIntersection,
-                        set1, weightIntersectionMap,
+                        set1,
+                        weightIntersectionMap,
                         setToIntersectionMap,
+                        splitState,
                     );
                     this.removeOtherAffectedSetFromMaps(
                         intersectionMapSet,
@@ -336,6 +617,7 @@ export class WeightedIntersectionsSplitter<T, U extends PrimitiveType> {
                         set2,
                         weightIntersectionMap,
                         setToIntersectionMap,
+                        splitState,
                     );
                     return false;
                 }
@@ -350,30 +632,27 @@ export class WeightedIntersectionsSplitter<T, U extends PrimitiveType> {
         return intersectingPairs;
     }
 
-    private removeOtherAffectedSetFromMaps<V>(
-        map: Map<U, Map<Set<V>, number>>,
+    private removeOtherAffectedSetFromMaps(
+        map: IntersectionMapSet<T, U>,
         key: U,
-        set: Set<V>,
-        weightMap: Map<number, Set<U>>,
-        setToKeyMap: Map<Set<V>, Set<U>>,
+        set: Set<T>,
+        weightMap: WeightIntersectionMap<U>,
+        setToKeyMap: SetToIntersectionMap<T, U>,
+        splitState: SplitState<T>,
     ): void {
-        const setMap = <Map<Set<V>, number> >map.get(key);
+        const setMap = <Map<Set<T>, number> >map.get(key);
         const setCount = <number>setMap.get(set);
         if (setCount > 1) {
             setMap.set(set, setCount - 1);
         } else {
-            const intersectingElementsCount = this.mapFunctions.splitter(key).length;
-            const intersectingSetsCount = setMap.size;
-            const weight = this.primaryWeight({intersectingElementsCount, intersectingSetsCount});
+            const weight = this.primaryWeight(this.getWeightFunctionParameters(key, setMap, splitState));
             this.removeFromSetOrDeleteFromMap(weightMap, weight, key);
-            const updatedWeight = this.primaryWeight(
-                {intersectingElementsCount, intersectingSetsCount: intersectingSetsCount - 1},
-            );
-            if (intersectingSetsCount > 1) {
-                this.addToSetOrCreateKeyInMap(weightMap, updatedWeight, key);
-            }
             this.removeFromSetOrDeleteFromMap(setToKeyMap, set, key);
             setMap.delete(set);
+            if (setMap.size > 0) {
+                const updatedWeight = this.primaryWeight(this.getWeightFunctionParameters(key, setMap, splitState));
+                this.addToSetOrCreateKeyInMap(weightMap, updatedWeight, key);
+            }
         }
         if (setMap.size === 0) {
             map.delete(key);
@@ -417,21 +696,29 @@ export class WeightedIntersectionsSplitter<T, U extends PrimitiveType> {
         intersectionMapSet: IntersectionMapSet<T, U>,
         setToIntersectionMap: SetToIntersectionMap<T, U>,
         weightIntersectionMap: WeightIntersectionMap<U>,
+        splitState: SplitState<T>,
     ) {
         prevSets.forEach((set) => {
-            this.addUpdateToMaps(set, newSet, intersectionMap, intersectionMapSet, setToIntersectionMap, weightIntersectionMap);
+            this.addUpdateToMaps(set, newSet, intersectionMap, intersectionMapSet, setToIntersectionMap, weightIntersectionMap, splitState);
         });
         intersectingPairs.forEach(([set1, set2]) => {
-            this.addUpdateToMaps(set1, set2, intersectionMap, intersectionMapSet, setToIntersectionMap, weightIntersectionMap);
+            this.addUpdateToMaps(set1, set2, intersectionMap, intersectionMapSet, setToIntersectionMap, weightIntersectionMap, splitState);
         });
     }
 
-    private updateSetObj(set: Set<T>, setNodeMap: Map<Set<T>, SetNode<T>>, newIntersectingObj: SetNode<T>, depth: number) {
+    private updateSetObj(
+        set: Set<T>,
+        setNodeMap: Map<Set<T>, SetNode<T>>,
+        newIntersectingObj: SetNode<T>,
+        depth: number,
+        splitState: SplitState<T>,
+    ) {
         const setNode = <SetNode<T>>setNodeMap.get(set);
         if (setNode.depth >= depth) {
             depth = setNode.depth + 1;
         }
         this.filterFromSet(setNode.rest, (element) => !newIntersectingObj.set.has(element));
+        splitState.updateSet(setNode.rest);
         setNode.imports.push(newIntersectingObj);
         return depth;
     }
@@ -443,8 +730,9 @@ export class WeightedIntersectionsSplitter<T, U extends PrimitiveType> {
         intersectionMapSet: IntersectionMapSet<T, U>,
         setToIntersectionMap: SetToIntersectionMap<T, U>,
         weightIntersectionMap: WeightIntersectionMap<U>,
+        splitState: SplitState<T>,
     ): void {
-        const intersection = intersectSets(set1, set2);
+        const intersection = splitState.intersectSets(set1, set2);
         if (intersection.size > 0) {
             const intersectionId = this.mapFunctions.joiner([...intersection]);
             const intersectingSets = intersectionMap.get(intersectionId);
@@ -454,28 +742,45 @@ export class WeightedIntersectionsSplitter<T, U extends PrimitiveType> {
                 intersectionMap.set(intersectionId, [[set1, set2]]);
             }
             const intersectingMapSets = intersectionMapSet.get(intersectionId);
-            let intersectingSetsCount: number;
+            let intersectingSetsMap: Map<Set<T>, number>;
             if (intersectingMapSets) {
-                const prevWeight = this.primaryWeight(
-                    {intersectingElementsCount: intersection.size, intersectingSetsCount: intersectingMapSets.size},
-                );
+                const prevWeight = this.primaryWeight(this.getWeightFunctionParameters(intersectionId, intersectingMapSets, splitState));
                 this.removeFromSetOrDeleteFromMap(weightIntersectionMap, prevWeight, intersectionId);
                 this.addToIntersectingMapSets(intersectingMapSets, set1);
                 this.addToIntersectingMapSets(intersectingMapSets, set2);
-                intersectingSetsCount = intersectingMapSets.size;
+                intersectingSetsMap = intersectingMapSets;
             } else {
-                intersectionMapSet.set(intersectionId, new Map([[set1, 1], [set2, 1]]));
-                intersectingSetsCount = 2;
+                intersectingSetsMap = new Map([[set1, 1], [set2, 1]]);
+                intersectionMapSet.set(intersectionId, intersectingSetsMap);
             }
-            const weight = this.primaryWeight(
-                {intersectingElementsCount: intersection.size, intersectingSetsCount},
-            );
+            const weight = this.primaryWeight(this.getWeightFunctionParameters(intersectionId, intersectingSetsMap, splitState));
             this.addToSetOrCreateKeyInMap(weightIntersectionMap, weight, intersectionId);
             this.addToSetOrCreateKeyInMap(setToIntersectionMap, set1, intersectionId);
             this.addToSetOrCreateKeyInMap(setToIntersectionMap, set2, intersectionId);
         }
     }
 
+    /**
+     * The parameters are always created from the intersection id and the sets which include the intersection, so that the weight of an intersection is
+     * the same when it is added to and removed from the maps, even when the sum of the element weights depends on the order of the elements.
+     * @param intersection - The id of the intersection
+     * @param intersectingSets - The sets which include the intersection, either as array or as the keys of the map in `IntersectionMapSet`
+     * @param splitState - The state of the split
+     */
+    private getWeightFunctionParameters(
+        intersection: U,
+        intersectingSets: Set<T>[] | Map<Set<T>, number>,
+        splitState: SplitState<T>,
+    ): WeightFunctionParameters<T> {
+        const intersectingElements = this.mapFunctions.splitter(intersection);
+        return new LazyWeightFunctionParameters(
+            intersectingElements,
+            getElementsWeight(intersectingElements, this.elementWeight),
+            intersectingSets,
+            splitState,
+        );
+    }
+
     private addToIntersectingMapSets(
         intersectingMapSets: Map<Set<T>, number>,
         set: Set<T>,
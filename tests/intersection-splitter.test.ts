@@ -3,10 +3,39 @@ import {
     WeightedIntersectionsSplitter,
     GetNodeMetrics,
     splitIntersectionsShallow,
+    splitIntersectionsGrouped,
+    splitIntersectionsLattice,
     BiggestIntersectionsSplitter,
     SetNode,
     ArrayNode,
     mapFunctionsDict,
+    createInterningMapFunctions,
+    BitSetIndex,
+    IntersectionEngine,
+    WeightedIntersectionsSplitterOptions,
+    countBits,
+    WeightFunction,
+    TrafficIntersectionsSplitter,
+    CostIntersectionsSplitter,
+    OptimalIntersectionsSplitter,
+    getNodesCost,
+    getExpectedDownloadsPerVisit,
+    createNodeId,
+    createNodeIdFunction,
+    serializeNodes,
+    deserializeNodes,
+    nodesToDot,
+    nodesToMermaid,
+    validateNodes,
+    updateSplit,
+    diffSplits,
+    formatSplitDiff,
+    optimizeNodes,
+    OverFetchIntersectionsSplitter,
+    compareSplitters,
+    createDefaultCandidates,
+    autoSplit,
+    formatSplitterComparison,
 } from '../src';
 
 describe('Test splitting of intersections from sets', () => {
@@ -19,36 +48,42 @@ describe('Test splitting of intersections from sets', () => {
         const setNodes: SetNode<number>[] = [
             {
                 set: new Set([1, 2, 3]),
+                id: createNodeId([1, 2, 3]),
                 rest: new Set([1]),
                 depth: 0,
                 imports: [],
             },
             {
                 set: new Set([2, 3, 4]),
+                id: createNodeId([2, 3, 4]),
                 rest: new Set(),
                 depth: 0,
                 imports: [],
             },
             {
                 set: new Set([3, 4, 5]),
+                id: createNodeId([3, 4, 5]),
                 rest: new Set([5]),
                 depth: 0,
                 imports: [],
             },
             {
                 set: new Set([2]),
+                id: createNodeId([2]),
                 rest: new Set([2]),
                 depth: 1,
                 imports: [],
             },
             {
                 set: new Set([3]),
+                id: createNodeId([3]),
                 rest: new Set([3]),
                 depth: 1,
                 imports: [],
             },
             {
                 set: new Set([4]),
+                id: createNodeId([4]),
                 rest: new Set([4]),
                 depth: 1,
                 imports: [],
@@ -68,10 +103,17 @@ describe('Test splitting of intersections from sets', () => {
             avgLeaves: 2.3333333333333335,
             avgImports: 2.3333333333333335,
             avgNodes: 3.3333333333333335,
+            tree: {
+                avgLeaves: 2.3333333333333335,
+                avgImports: 2.3333333333333335,
+                avgNodes: 3.3333333333333335,
+                avgDepth: 1,
+            },
             generatedNodes: 3,
             rootNodes: 3,
             elementsCount: 9,
             uniqueElements: 5,
+            overFetch: 0,
         };
         expect(new GetNodeMetrics().getNodeMetrics(shallowSplitNodes)).toEqual(metrics);
     });
@@ -84,36 +126,42 @@ describe('Test splitting of intersections from sets', () => {
         const setNodes: SetNode<string>[] = [
             {
                 set: new Set(['1', '2', '3']),
+                id: createNodeId(['1', '2', '3']),
                 rest: new Set(['1']),
                 depth: 0,
                 imports: [],
             },
             {
                 set: new Set(['2', '3', '4']),
+                id: createNodeId(['2', '3', '4']),
                 rest: new Set(),
                 depth: 0,
                 imports: [],
             },
             {
                 set: new Set(['3', '4', '5']),
+                id: createNodeId(['3', '4', '5']),
                 rest: new Set(['5']),
                 depth: 0,
                 imports: [],
             },
             {
                 set: new Set(['2', '3']),
+                id: createNodeId(['2', '3']),
                 rest: new Set(['2']),
                 depth: 1,
                 imports: [],
             },
             {
                 set: new Set(['3']),
+                id: createNodeId(['3']),
                 rest: new Set(['3']),
                 depth: 2,
                 imports: [],
             },
             {
                 set: new Set(['4']),
+                id: createNodeId(['4']),
                 rest: new Set(['4']),
                 depth: 1,
                 imports: [],
@@ -137,10 +185,17 @@ describe('Test splitting of intersections from sets', () => {
             avgLeaves: 1.6666666666666667,
             avgImports: 2.3333333333333335,
             avgNodes: 3.3333333333333335,
+            tree: {
+                avgLeaves: 1.6666666666666667,
+                avgImports: 2.3333333333333335,
+                avgNodes: 3.3333333333333335,
+                avgDepth: 1.5,
+            },
             generatedNodes: 3,
             rootNodes: 3,
             elementsCount: 9,
             uniqueElements: 5,
+            overFetch: 0,
         };
 
         expect(new GetNodeMetrics().getNodeMetrics(weightedSplitSetNodes)).toEqual(metric);
@@ -154,30 +209,35 @@ describe('Test splitting of intersections from sets', () => {
         const setNodesElementsCount: SetNode<string>[] = [
             {
                 set: new Set(['1', '2', '3']),
+                id: createNodeId(['1', '2', '3']),
                 rest: new Set([]),
                 depth: 0,
                 imports: [],
             },
             {
                 set: new Set(['1', '2', '3']),
+                id: createNodeId(['1', '2', '3']),
                 rest: new Set(),
                 depth: 0,
                 imports: [],
             },
             {
                 set: new Set(['2', '3', '4']),
+                id: createNodeId(['2', '3', '4']),
                 rest: new Set(['4']),
                 depth: 0,
                 imports: [],
             },
             {
                 set: new Set(['1', '2', '3']),
+                id: createNodeId(['1', '2', '3']),
                 rest: new Set(['1']),
                 depth: 1,
                 imports: [],
             },
             {
                 set: new Set(['2', '3']),
+                id: createNodeId(['2', '3']),
                 rest: new Set(['2', '3']),
                 depth: 2,
                 imports: [],
@@ -197,30 +257,35 @@ describe('Test splitting of intersections from sets', () => {
         const setNodesSetsCount: SetNode<string>[] = [
             {
                 set: new Set(['1', '2', '3']),
+                id: createNodeId(['1', '2', '3']),
                 rest: new Set([]),
                 depth: 0,
                 imports: [],
             },
             {
                 set: new Set(['1', '2', '3']),
+                id: createNodeId(['1', '2', '3']),
                 rest: new Set(),
                 depth: 0,
                 imports: [],
             },
             {
                 set: new Set(['2', '3', '4']),
+                id: createNodeId(['2', '3', '4']),
                 rest: new Set(['4']),
                 depth: 0,
                 imports: [],
             },
             {
                 set: new Set(['2', '3']),
+                id: createNodeId(['2', '3']),
                 rest: new Set(['2', '3']),
                 depth: 1,
                 imports: [],
             },
             {
                 set: new Set(['1']),
+                id: createNodeId(['1']),
                 rest: new Set(['1']),
                 depth: 1,
                 imports: [],
@@ -246,36 +311,42 @@ describe('Test splitting of intersections from sets', () => {
         const setNodesBiggestIntersection: SetNode<string>[] = [
             {
                 set: new Set(['1', '2', '3', '4']),
+                id: createNodeId(['1', '2', '3', '4']),
                 rest: new Set(),
                 depth: 0,
                 imports: [],
             },
             {
                 set: new Set(['1', '2', '3', '4']),
+                id: createNodeId(['1', '2', '3', '4']),
                 rest: new Set(),
                 depth: 0,
                 imports: [],
             },
             {
                 set: new Set(['2', '3', '4']),
+                id: createNodeId(['2', '3', '4']),
                 rest: new Set(),
                 depth: 0,
                 imports: [],
             },
             {
                 set: new Set(['2', '3', '4']),
+                id: createNodeId(['2', '3', '4']),
                 rest: new Set(),
                 depth: 0,
                 imports: [],
             },
             {
                 set: new Set(['1', '2', '3', '4']),
+                id: createNodeId(['1', '2', '3', '4']),
                 rest: new Set(['1']),
                 depth: 1,
                 imports: [],
             },
             {
                 set: new Set(['2', '3', '4']),
+                id: createNodeId(['2', '3', '4']),
                 rest: new Set(['2', '3', '4']),
                 depth: 2,
                 imports: [],
@@ -291,36 +362,42 @@ describe('Test splitting of intersections from sets', () => {
         const setNodesWeightFunctionBiggestIntersection: SetNode<string>[] = [
             {
                 set: new Set(['1', '2', '3', '4']),
+                id: createNodeId(['1', '2', '3', '4']),
                 rest: new Set(),
                 depth: 0,
                 imports: [],
             },
             {
                 set: new Set(['1', '2', '3', '4']),
+                id: createNodeId(['1', '2', '3', '4']),
                 rest: new Set(),
                 depth: 0,
                 imports: [],
             },
             {
                 set: new Set(['2', '3', '4']),
+                id: createNodeId(['2', '3', '4']),
                 rest: new Set(),
                 depth: 0,
                 imports: [],
             },
             {
                 set: new Set(['2', '3', '4']),
+                id: createNodeId(['2', '3', '4']),
                 rest: new Set(),
                 depth: 0,
                 imports: [],
             },
             {
                 set: new Set(['2', '3', '4']),
+                id: createNodeId(['2', '3', '4']),
                 rest: new Set(['2', '3', '4']),
                 depth: 1,
                 imports: [],
             },
             {
                 set: new Set(['1']),
+                id: createNodeId(['1']),
                 rest: new Set(['1']),
                 depth: 1,
                 imports: [],
@@ -344,10 +421,17 @@ describe('Test splitting of intersections from sets', () => {
             avgLeaves: 1,
             avgImports: 1.5,
             avgNodes: 2.5,
+            tree: {
+                avgLeaves: 1,
+                avgImports: 1.5,
+                avgNodes: 2.5,
+                avgDepth: 1.5,
+            },
             generatedNodes: 2,
             rootNodes: 4,
             elementsCount: 14,
             uniqueElements: 4,
+            overFetch: 0,
         };
 
         const metricWeightFunctionBiggestIntersection = {
@@ -357,10 +441,17 @@ describe('Test splitting of intersections from sets', () => {
             avgLeaves: 1.5,
             avgImports: 1.5,
             avgNodes: 2.5,
+            tree: {
+                avgLeaves: 1.5,
+                avgImports: 1.5,
+                avgNodes: 2.5,
+                avgDepth: 1,
+            },
             generatedNodes: 2,
             rootNodes: 4,
             elementsCount: 14,
             uniqueElements: 4,
+            overFetch: 0,
         };
 
         expect(new GetNodeMetrics().getNodeMetrics(setNodesBiggestIntersection)).toEqual(metricBiggestIntersection);
@@ -377,36 +468,42 @@ describe('Test splitting of intersections from arrays', () => {
         const arrayNodes: ArrayNode<number>[] = [
             {
                 array: [1, 2, 3],
+                id: createNodeId([1, 2, 3]),
                 rest: [1],
                 depth: 0,
                 imports: [],
             },
             {
                 array: [2, 3, 4],
+                id: createNodeId([2, 3, 4]),
                 rest: [],
                 depth: 0,
                 imports: [],
             },
             {
                 array: [3, 4, 5],
+                id: createNodeId([3, 4, 5]),
                 rest: [5],
                 depth: 0,
                 imports: [],
             },
             {
                 array: [2],
+                id: createNodeId([2]),
                 rest: [2],
                 depth: 1,
                 imports: [],
             },
             {
                 array: [3],
+                id: createNodeId([3]),
                 rest: [3],
                 depth: 1,
                 imports: [],
             },
             {
                 array: [4],
+                id: createNodeId([4]),
                 rest: [4],
                 depth: 1,
                 imports: [],
@@ -426,10 +523,17 @@ describe('Test splitting of intersections from arrays', () => {
             avgLeaves: 2.3333333333333335,
             avgImports: 2.3333333333333335,
             avgNodes: 3.3333333333333335,
+            tree: {
+                avgLeaves: 2.3333333333333335,
+                avgImports: 2.3333333333333335,
+                avgNodes: 3.3333333333333335,
+                avgDepth: 1,
+            },
             generatedNodes: 3,
             rootNodes: 3,
             elementsCount: 9,
             uniqueElements: 5,
+            overFetch: 0,
         };
         expect(new GetNodeMetrics().getNodeMetrics(shallowSplitNodes)).toEqual(metrics);
     });
@@ -442,36 +546,42 @@ describe('Test splitting of intersections from arrays', () => {
         const arrayNodes: ArrayNode<string>[] = [
             {
                 array: ['1', '2', '3'],
+                id: createNodeId(['1', '2', '3']),
                 rest: ['1'],
                 depth: 0,
                 imports: [],
             },
             {
                 array: ['2', '3', '4'],
+                id: createNodeId(['2', '3', '4']),
                 rest: [],
                 depth: 0,
                 imports: [],
             },
             {
                 array: ['3', '4', '5'],
+                id: createNodeId(['3', '4', '5']),
                 rest: ['5'],
                 depth: 0,
                 imports: [],
             },
             {
                 array: ['2', '3'],
+                id: createNodeId(['2', '3']),
                 rest: ['2'],
                 depth: 1,
                 imports: [],
             },
             {
                 array: ['3'],
+                id: createNodeId(['3']),
                 rest: ['3'],
                 depth: 2,
                 imports: [],
             },
             {
                 array: ['4'],
+                id: createNodeId(['4']),
                 rest: ['4'],
                 depth: 1,
                 imports: [],
@@ -495,10 +605,17 @@ describe('Test splitting of intersections from arrays', () => {
             avgLeaves: 1.6666666666666667,
             avgImports: 2.3333333333333335,
             avgNodes: 3.3333333333333335,
+            tree: {
+                avgLeaves: 1.6666666666666667,
+                avgImports: 2.3333333333333335,
+                avgNodes: 3.3333333333333335,
+                avgDepth: 1.5,
+            },
             generatedNodes: 3,
             rootNodes: 3,
             elementsCount: 9,
             uniqueElements: 5,
+            overFetch: 0,
         };
 
         expect(new GetNodeMetrics().getNodeMetrics(weightedSplitSetNodes)).toEqual(metric);
@@ -512,30 +629,35 @@ describe('Test splitting of intersections from arrays', () => {
         const arrayNodesElementsCount: ArrayNode<string>[] = [
             {
                 array: ['1', '2', '3'],
+                id: createNodeId(['1', '2', '3']),
                 rest: [],
                 depth: 0,
                 imports: [],
             },
             {
                 array: ['1', '2', '3'],
+                id: createNodeId(['1', '2', '3']),
                 rest: [],
                 depth: 0,
                 imports: [],
             },
             {
                 array: ['2', '3', '4'],
+                id: createNodeId(['2', '3', '4']),
                 rest: ['4'],
                 depth: 0,
                 imports: [],
             },
             {
                 array: ['1', '2', '3'],
+                id: createNodeId(['1', '2', '3']),
                 rest: ['1'],
                 depth: 1,
                 imports: [],
             },
             {
                 array: ['2', '3'],
+                id: createNodeId(['2', '3']),
                 rest: ['2', '3'],
                 depth: 2,
                 imports: [],
@@ -555,30 +677,35 @@ describe('Test splitting of intersections from arrays', () => {
         const arrayNodesSetsCount: ArrayNode<string>[] = [
             {
                 array: ['1', '2', '3'],
+                id: createNodeId(['1', '2', '3']),
                 rest: [],
                 depth: 0,
                 imports: [],
             },
             {
                 array: ['1', '2', '3'],
+                id: createNodeId(['1', '2', '3']),
                 rest: [],
                 depth: 0,
                 imports: [],
             },
             {
                 array: ['2', '3', '4'],
+                id: createNodeId(['2', '3', '4']),
                 rest: ['4'],
                 depth: 0,
                 imports: [],
             },
             {
                 array: ['2', '3'],
+                id: createNodeId(['2', '3']),
                 rest: ['2', '3'],
                 depth: 1,
                 imports: [],
             },
             {
                 array: ['1'],
+                id: createNodeId(['1']),
                 rest: ['1'],
                 depth: 1,
                 imports: [],
@@ -604,36 +731,42 @@ describe('Test splitting of intersections from arrays', () => {
         const arrayNodesBiggestIntersection: ArrayNode<string>[] = [
             {
                 array: ['1', '2', '3', '4'],
+                id: createNodeId(['1', '2', '3', '4']),
                 rest: [],
                 depth: 0,
                 imports: [],
             },
             {
                 array: ['1', '2', '3', '4'],
+                id: createNodeId(['1', '2', '3', '4']),
                 rest: [],
                 depth: 0,
                 imports: [],
             },
             {
                 array: ['2', '3', '4'],
+                id: createNodeId(['2', '3', '4']),
                 rest: [],
                 depth: 0,
                 imports: [],
             },
             {
                 array: ['2', '3', '4'],
+                id: createNodeId(['2', '3', '4']),
                 rest: [],
                 depth: 0,
                 imports: [],
             },
             {
                 array: ['1', '2', '3', '4'],
+                id: createNodeId(['1', '2', '3', '4']),
                 rest: ['1'],
                 depth: 1,
                 imports: [],
             },
             {
                 array: ['2', '3', '4'],
+                id: createNodeId(['2', '3', '4']),
                 rest: ['2', '3', '4'],
                 depth: 2,
                 imports: [],
@@ -649,36 +782,42 @@ describe('Test splitting of intersections from arrays', () => {
         const arrayNodesWeightFunctionBiggestIntersection: ArrayNode<string>[] = [
             {
                 array: ['1', '2', '3', '4'],
+                id: createNodeId(['1', '2', '3', '4']),
                 rest: [],
                 depth: 0,
                 imports: [],
             },
             {
                 array: ['1', '2', '3', '4'],
+                id: createNodeId(['1', '2', '3', '4']),
                 rest: [],
                 depth: 0,
                 imports: [],
             },
             {
                 array: ['2', '3', '4'],
+                id: createNodeId(['2', '3', '4']),
                 rest: [],
                 depth: 0,
                 imports: [],
             },
             {
                 array: ['2', '3', '4'],
+                id: createNodeId(['2', '3', '4']),
                 rest: [],
                 depth: 0,
                 imports: [],
             },
             {
                 array: ['2', '3', '4'],
+                id: createNodeId(['2', '3', '4']),
                 rest: ['2', '3', '4'],
                 depth: 1,
                 imports: [],
             },
             {
                 array: ['1'],
+                id: createNodeId(['1']),
                 rest: ['1'],
                 depth: 1,
                 imports: [],
@@ -702,10 +841,17 @@ describe('Test splitting of intersections from arrays', () => {
             avgLeaves: 1,
             avgImports: 1.5,
             avgNodes: 2.5,
+            tree: {
+                avgLeaves: 1,
+                avgImports: 1.5,
+                avgNodes: 2.5,
+                avgDepth: 1.5,
+            },
             generatedNodes: 2,
             rootNodes: 4,
             elementsCount: 14,
             uniqueElements: 4,
+            overFetch: 0,
         };
 
         const metricWeightFunctionBiggestIntersection = {
@@ -715,10 +861,17 @@ describe('Test splitting of intersections from arrays', () => {
             avgLeaves: 1.5,
             avgImports: 1.5,
             avgNodes: 2.5,
+            tree: {
+                avgLeaves: 1.5,
+                avgImports: 1.5,
+                avgNodes: 2.5,
+                avgDepth: 1,
+            },
             generatedNodes: 2,
             rootNodes: 4,
             elementsCount: 14,
             uniqueElements: 4,
+            overFetch: 0,
         };
 
         expect(new GetNodeMetrics().getNodeMetrics(arrayNodesBiggestIntersection)).toEqual(metricBiggestIntersection);
@@ -730,6 +883,7 @@ describe('Works with any type of objects', () => {
         const a1 = [1];
         const a2 = [1];
         const a3 = [3];
+        const idFunction = createNodeIdFunction(createInterningMapFunctions<number[]>().joiner);
 
         const sets = new Set([
             new Set([a1, a2, a3]),
@@ -740,14 +894,17 @@ describe('Works with any type of objects', () => {
         const setNodesWithArrays = [
             {
                 set: new Set([[1], [1], [3]]),
+                id: idFunction([a1, a2, a3]),
                 rest: new Set([[1]]),
                 imports: [
                     {
                         set: new Set([[1], [3]]),
+                        id: idFunction([a2, a3]),
                         rest: new Set([[1]]),
                         imports: [
                             {
                                 set: new Set([[3]]),
+                                id: idFunction([a3]),
                                 rest: new Set([[3]]),
                                 imports: [],
                                 depth: 2,
@@ -760,14 +917,17 @@ describe('Works with any type of objects', () => {
             },
             {
                 set: new Set([[1], [3]]),
+                id: idFunction([a2, a3]),
                 rest: new Set(),
                 imports: [
                     {
                         set: new Set([[1], [3]]),
+                        id: idFunction([a2, a3]),
                         rest: new Set([[1]]),
                         imports: [
                             {
                                 set: new Set([[3]]),
+                                id: idFunction([a3]),
                                 rest: new Set([[3]]),
                                 imports: [],
                                 depth: 2,
@@ -780,10 +940,12 @@ describe('Works with any type of objects', () => {
             },
             {
                 set: new Set([[3]]),
+                id: idFunction([a3]),
                 rest: new Set(),
                 imports: [
                     {
                         set: new Set([[3]]),
+                        id: idFunction([a3]),
                         rest: new Set([[3]]),
                         imports: [],
                         depth: 2,
@@ -793,10 +955,12 @@ describe('Works with any type of objects', () => {
             },
             {
                 set: new Set([[1], [3]]),
+                id: idFunction([a2, a3]),
                 rest: new Set([[1]]),
                 imports: [
                     {
                         set: new Set([[3]]),
+                        id: idFunction([a3]),
                         rest: new Set([[3]]),
                         imports: [],
                         depth: 2,
@@ -806,6 +970,7 @@ describe('Works with any type of objects', () => {
             },
             {
                 set: new Set([[3]]),
+                id: idFunction([a3]),
                 rest: new Set([[3]]),
                 imports: [],
                 depth: 2,
@@ -813,6 +978,1020 @@ describe('Works with any type of objects', () => {
         ];
         expect(new BiggestIntersectionsSplitter(
             false,
+            {idFunction},
         ).splitSets(sets)).toEqual(setNodesWithArrays);
     });
+    test('Works with interning map functions', () => {
+        const a1 = {name: 'a1'};
+        const a2 = {name: 'a2'};
+        const a3 = {name: 'a3'};
+        const mapFunctions = createInterningMapFunctions<{ name: string }>();
+        const setNodes = new WeightedIntersectionsSplitter(mapFunctions, undefined, undefined, {
+            idFunction: createNodeIdFunction(mapFunctions.joiner),
+        }).splitSets(new Set([
+            new Set([a1, a2, a3]),
+            new Set([a2, a3]),
+            new Set([a3]),
+        ]));
+        expect(setNodes.slice(3).map(({set}) => [...set])).toEqual([[a2, a3], [a3]]);
+        expect([...setNodes[4].set][0]).toBe(a3);
+        expect(setNodes[0].rest).toEqual(new Set([a1]));
+        expect(validateNodes(setNodes).valid).toBe(true);
+    });
+    test('Maps elements to the same primitive regardless of their order', () => {
+        const {joiner, splitter} = createInterningMapFunctions<object>();
+        const o1 = {};
+        const o2 = {};
+        expect(joiner([o2, o1])).toBe(joiner([o1, o2]));
+        expect(splitter(joiner([o2, o1]))).toEqual([o2, o1]);
+        expect(splitter(joiner([]))).toEqual([]);
+    });
+});
+describe('Works with keyed collections', () => {
+    test('Splits a map of keyed sets', () => {
+        const routes = new Map([
+            ['home', new Set(['1', '2', '3'])],
+            ['about', new Set(['2', '3', '4'])],
+            ['contact', new Set(['3', '4', '5'])],
+        ]);
+        const result = new WeightedIntersectionsSplitter(
+            mapFunctionsDict.strings,
+        ).splitSets(routes);
+
+        expect([...result.roots.keys()]).toEqual(['home', 'about', 'contact']);
+        expect(result.nodes.length).toBe(6);
+        expect(result.generated.map(({set}) => set)).toEqual([new Set(['2', '3']), new Set(['3']), new Set(['4'])]);
+        const home = <SetNode<string> & {key: string}>result.roots.get('home');
+        expect(home.key).toBe('home');
+        expect(home.set).toEqual(new Set(['1', '2', '3']));
+        expect(home.rest).toEqual(new Set(['1']));
+        expect(home.imports).toEqual([result.generated[0]]);
+        expect(result.generated.every((node) => !('key' in node))).toBe(true);
+    });
+    test('Splits a record of keyed arrays with identical arrays', () => {
+        const array = ['1', '2', '3', '4'];
+        const result = new BiggestIntersectionsSplitter<string>(true).splitArrays({
+            a: array,
+            b: array,
+            c: ['2', '3', '4'],
+        });
+
+        expect([...result.roots.keys()]).toEqual(['a', 'b', 'c']);
+        expect(result.roots.get('a')).not.toBe(result.roots.get('b'));
+        expect(result.roots.get('a')?.imports).toEqual([result.generated[0]]);
+        expect(result.roots.get('c')?.imports).toEqual([result.generated[1]]);
+        expect(result.generated.map(({array: generatedArray}) => generatedArray)).toEqual([['1', '2', '3', '4'], ['2', '3', '4']]);
+    });
+    test('Splits keyed collections shallow', () => {
+        const setResult = splitIntersectionsShallow(new Map([
+            [1, [1, 2]],
+            [2, [2, 3]],
+        ]));
+        expect(setResult.roots.get(1)?.set).toEqual(new Set([1, 2]));
+        expect(setResult.roots.get(2)?.rest).toEqual(new Set([3]));
+        expect(setResult.generated).toEqual([{
+            set: new Set([2]), id: createNodeId([2]), rest: new Set([2]), depth: 1, imports: [],
+        }]);
+
+        const arrayResult = splitIntersectionsShallow({first: [1, 2], second: [2, 3]});
+        expect(arrayResult.roots.get('first')?.array).toEqual([1, 2]);
+        expect(arrayResult.roots.get('second')?.rest).toEqual([3]);
+        expect(arrayResult.generated.length).toBe(1);
+    });
+});
+describe('Creates ids of nodes', () => {
+    test('Ids of generated nodes do not depend on the order of the sets', () => {
+        const sets = [
+            new Set(['1', '2', '3', '4']),
+            new Set(['1', '2', '3', '4']),
+            new Set(['2', '3', '4']),
+        ];
+        const getGeneratedIds = (setNodes: SetNode<string>[]) => setNodes.filter(({depth}) => depth > 0).map(({id}) => id).sort();
+        const ids = getGeneratedIds(new BiggestIntersectionsSplitter<string>(false).splitSets(new Set(sets)));
+        expect(ids).toEqual([createNodeId(['1', '2', '3', '4']), createNodeId(['2', '3', '4'])].sort());
+        expect(getGeneratedIds(new BiggestIntersectionsSplitter<string>(false).splitSets(new Set([...sets].reverse())))).toEqual(ids);
+        expect(getGeneratedIds(new WeightedIntersectionsSplitter(mapFunctionsDict.strings).splitSets(new Set(sets)))).toEqual(ids);
+        expect(createNodeId(['4', '3', '2'])).toBe(createNodeId(['2', '3', '4']));
+        expect(createNodeId(['4', '3', '2'])).toMatch(/^[0-9a-f]{16}$/);
+    });
+    test('Creates distinct ids for distinct elements', () => {
+        const o1 = {};
+        const o2 = {};
+        expect(createNodeId([1])).not.toBe(createNodeId(['1']));
+        expect(createNodeId([true])).not.toBe(createNodeId(['true']));
+        expect(createNodeId([null])).not.toBe(createNodeId([undefined]));
+        expect(() => createNodeId([o1, o2])).toThrow('createNodeId only supports primitive elements, provide an idFunction for elements of the type object');
+        expect(() => createNodeId([Symbol('a')])).toThrow('provide an idFunction for elements of the type symbol');
+        expect(() => new BiggestIntersectionsSplitter<number[]>(false).splitArrays([[[1], [2]], [[1], [2]]])).toThrow('provide an idFunction');
+        const idFunction = createNodeIdFunction(createInterningMapFunctions<object>().joiner);
+        expect(idFunction([o1])).not.toBe(idFunction([o2]));
+        expect(idFunction([o1, o2])).toBe(idFunction([o2, o1]));
+    });
+    test('Uses the provided id function', () => {
+        const idFunction = createNodeIdFunction(mapFunctionsDict.integers.joiner);
+        const arrayNodes = splitIntersectionsShallow([[3, 1], [1, 2]], {idFunction});
+        expect(arrayNodes.map(({id}) => id)).toEqual([idFunction([1, 3]), idFunction([1, 2]), idFunction([1])]);
+        expect(idFunction([1, 2])).not.toBe(createNodeId([1, 2]));
+    });
+});
+describe('Serializes and deserializes nodes', () => {
+    test('Restores shared references of SetNodes', () => {
+        const setNodes = new WeightedIntersectionsSplitter(mapFunctionsDict.strings).splitSets(new Set([
+            new Set(['1', '2', '3']),
+            new Set(['2', '3', '4']),
+            new Set(['3', '4', '5']),
+        ]));
+        const serialized = serializeNodes(setNodes);
+        expect(JSON.parse(serialized).nodes[3]).toEqual({
+            id: createNodeId(['2', '3']), elements: ['2', '3'], rest: ['2'], imports: [4], depth: 1,
+        });
+
+        const deserializedNodes = deserializeNodes<string>(serialized);
+        expect(deserializedNodes).toEqual(setNodes);
+        expect(deserializedNodes[0].imports[0]).toBe(deserializedNodes[3]);
+        expect(deserializedNodes[1].imports[0]).toBe(deserializedNodes[3]);
+        expect(deserializedNodes[3].imports[0]).toBe(deserializedNodes[4]);
+    });
+    test('Restores keyed ArrayNodes with serialized elements', () => {
+        const a1 = {name: 'a1'};
+        const a2 = {name: 'a2'};
+        const elements = new Map([[a1.name, a1], [a2.name, a2]]);
+        const idFunction = createNodeIdFunction((array: {name: string}[]) => array.map(({name}) => name).sort().join());
+        const {nodes} = new BiggestIntersectionsSplitter<{name: string}>(false, {idFunction}).splitArrays({first: [a1, a2], second: [a2]});
+        const deserializedNodes = deserializeNodes<{name: string}, ArrayNode<{name: string}>, string>(
+            serializeNodes(nodes, ({name}) => name),
+            (name) => <{name: string}>elements.get(name),
+        );
+        expect(deserializedNodes).toEqual(nodes);
+        expect(deserializedNodes[0]).toHaveProperty('key', 'first');
+        expect(deserializedNodes[2].rest[0]).toBe(a2);
+        expect(deserializedNodes[1].imports[0]).toBe(deserializedNodes[2]);
+    });
+    test('Deserializes each element once', () => {
+        const element1 = {id: 1};
+        const element2 = {id: 2};
+        const idFunction = createNodeIdFunction((elements: {id: number}[]) => elements.map(({id}) => id).sort().join());
+        const setNodes = splitIntersectionsShallow(new Set([new Set([element1, element2]), new Set([element2])]), {idFunction});
+        const deserializedNodes = deserializeNodes<{id: number}, SetNode<{id: number}>, number>(
+            serializeNodes(setNodes, ({id}) => id),
+            (id) => ({id}),
+        );
+        const [deserializedElement] = [...deserializedNodes[2].set];
+        expect(deserializedElement).toEqual(element2);
+        expect(deserializedNodes[2].rest.has(deserializedElement)).toBe(true);
+        expect(deserializedNodes[0].set.has(deserializedElement)).toBe(true);
+        expect(validateNodes(deserializedNodes).valid).toBe(true);
+    });
+    test('Throws on invalid references', () => {
+        expect(() => serializeNodes([{
+            set: new Set([1]),
+            id: '1',
+            rest: new Set(),
+            depth: 0,
+            imports: [{
+                set: new Set([1]), id: '2', rest: new Set([1]), depth: 1, imports: [],
+            }],
+        }])).toThrow('Imported node 2 is not part of the serialized nodes');
+        expect(() => deserializeNodes('{"version":1,"type":"set","nodes":[{"id":"1","elements":[],"rest":[],"imports":[1],"depth":0}]}'))
+            .toThrow('Node 1 imports the not existing node with the index 1');
+    });
+});
+describe('Exports nodes as graph', () => {
+    const {nodes} = splitIntersectionsShallow(new Map([
+        ['first', [1, 2, 3, 4, 5, 6, 7]],
+        ['"second"', [7]],
+    ]));
+    test('Exports nodes to DOT', () => {
+        expect(nodesToDot(nodes, {maxLabelElements: 3})).toBe([
+            'digraph nodes {',
+            '    node [shape=ellipse];',
+            '    n0 [label="first\\n1, 2, 3, … (+3)\\ndepth 0", shape=box, style=bold];',
+            '    n1 [label="\\"second\\"\\n\\ndepth 0", shape=box, style=bold];',
+            '    n2 [label="7\\ndepth 1"];',
+            '    n0 -> n2;',
+            '    n1 -> n2;',
+            '}',
+        ].join('\n'));
+    });
+    test('Exports nodes to Mermaid', () => {
+        expect(nodesToMermaid(nodes, {formatElement: (element) => `<${element}>`})).toBe([
+            'flowchart TD',
+            '    n0["first<br/>#lt;1#gt;, #lt;2#gt;, #lt;3#gt;, #lt;4#gt;, #lt;5#gt;, … (+1)<br/>depth 0"]',
+            '    n1["#quot;second#quot;<br/><br/>depth 0"]',
+            '    n2(["#lt;7#gt;<br/>depth 1"])',
+            '    n0 --> n2',
+            '    n1 --> n2',
+            '    classDef root stroke-width:3px;',
+            '    class n0,n1 root;',
+        ].join('\n'));
+    });
+});
+describe('Validates nodes', () => {
+    const sets = new Set([
+        new Set(['1', '2', '3']),
+        new Set(['2', '3', '4']),
+        new Set(['3', '4', '5']),
+    ]);
+    test('Validates the nodes of all splitters', () => {
+        expect(validateNodes(splitIntersectionsShallow(sets))).toEqual({
+            valid: true, issues: [], rootNodes: 3, generatedNodes: 3,
+        });
+        expect(validateNodes(new BiggestIntersectionsSplitter<string>(true).splitSets(sets)).valid).toBe(true);
+        expect(validateNodes(new WeightedIntersectionsSplitter(mapFunctionsDict.strings).splitArrays([...sets].map((set) => [...set]))).valid).toBe(true);
+    });
+    test('Reports missing, extra and duplicate elements', () => {
+        const setNodes = new WeightedIntersectionsSplitter(mapFunctionsDict.strings).splitSets(sets);
+        setNodes[0].rest.delete('1');
+        setNodes[5].rest.add('6');
+        setNodes[3].rest.add('3');
+        const {valid, issues} = validateNodes(setNodes);
+        expect(valid).toBe(false);
+        expect(issues).toEqual([
+            {type: 'missingElements', node: setNodes[0], elements: ['1']},
+            {type: 'duplicateElements', node: setNodes[0], elements: ['3']},
+            {type: 'extraElements', node: setNodes[1], elements: ['6']},
+            {type: 'duplicateElements', node: setNodes[1], elements: ['3']},
+            {type: 'extraElements', node: setNodes[2], elements: ['6']},
+            {type: 'duplicateElements', node: setNodes[3], elements: ['3']},
+            {type: 'extraElements', node: setNodes[5], elements: ['6']},
+        ]);
+    });
+    test('Reports wrong depths, cycles and unknown imports', () => {
+        const setNodes = splitIntersectionsShallow(sets);
+        setNodes[3].depth = 2;
+        expect(validateNodes(setNodes).issues).toEqual([{
+            type: 'depthMismatch', node: setNodes[3], depth: 2, expectedDepth: 1,
+        }]);
+        setNodes[3].imports.push(setNodes[1]);
+        expect(validateNodes(setNodes).issues.filter(({type}) => type === 'cycle')).toEqual([{
+            type: 'cycle', node: setNodes[3], path: [setNodes[3], setNodes[1]],
+        }]);
+        expect(validateNodes(setNodes.slice(0, 5)).issues[0]).toEqual({type: 'unknownImport', node: setNodes[1], importedNode: setNodes[5]});
+    });
+});
+describe('Splits by the weight of elements', () => {
+    const sets = new Set([
+        new Set(['a', 'b', 'c', 'large']),
+        new Set(['a', 'b', 'c']),
+        new Set(['large', 'z']),
+    ]);
+    const elementWeight = (element: string) => (element === 'large' ? 100 : 1);
+    const getGeneratedSets = (setNodes: SetNode<string>[]) => setNodes.filter(({depth}) => depth > 0).map(({set}) => set);
+    test('Splits the heaviest intersection first', () => {
+        expect(getGeneratedSets(new BiggestIntersectionsSplitter<string>(true).splitSets(sets))).toEqual([new Set(['a', 'b', 'c']), new Set(['large'])]);
+        expect(getGeneratedSets(new BiggestIntersectionsSplitter<string>(true, {elementWeight}).splitSets(sets))).toEqual([
+            new Set(['large']),
+            new Set(['a', 'b', 'c']),
+        ]);
+        expect(getGeneratedSets(new WeightedIntersectionsSplitter(mapFunctionsDict.strings).splitSets(sets))).toEqual([
+            new Set(['a', 'b', 'c']),
+            new Set(['large']),
+        ]);
+        expect(getGeneratedSets(new WeightedIntersectionsSplitter(
+            mapFunctionsDict.strings,
+            undefined,
+            undefined,
+            {elementWeight},
+        ).splitSets(sets))).toEqual([new Set(['large']), new Set(['a', 'b', 'c'])]);
+    });
+    test('Passes the weight of the intersection to the weight functions', () => {
+        const weightFunction = jest.fn(weightFunctions.productSetsElementsWeight);
+        new WeightedIntersectionsSplitter(mapFunctionsDict.strings, weightFunction, weightFunctions.setsCount, {elementWeight}).splitSets(sets);
+        expect(weightFunction).toHaveBeenCalledWith(expect.objectContaining({intersectingElementsCount: 1, intersectingElementsWeight: 100, intersectingSetsCount: 2}));
+        expect(weightFunction).toHaveBeenCalledWith(expect.objectContaining({intersectingElementsCount: 3, intersectingElementsWeight: 3, intersectingSetsCount: 2}));
+    });
+    test('Adds the weights to the metrics', () => {
+        const setNodes = new BiggestIntersectionsSplitter<string>(true, {elementWeight}).splitSets(sets);
+        expect(new GetNodeMetrics<string, SetNode<string>>({elementWeight}).getNodeMetrics(setNodes)).toMatchObject({
+            elementsCount: 9,
+            uniqueElements: 5,
+            elementsWeight: 207,
+            uniqueElementsWeight: 104,
+        });
+        expect(new GetNodeMetrics().getNodeMetrics(setNodes)).not.toHaveProperty('elementsWeight');
+    });
+});
+describe('Keeps small intersections in rest', () => {
+    const sets = new Set([
+        new Set(['1', '2', '3']),
+        new Set(['2', '3', '4']),
+        new Set(['3', '4', '5']),
+    ]);
+    test('Throws when splitting shallow with more than one element', () => {
+        expect(() => splitIntersectionsShallow(sets, {minElements: 2})).toThrow('The shallow split creates nodes of one element, minElements must be at most 1 but is 2');
+        expect(() => splitIntersectionsShallow([[1, 2], [2, 3]], {minElements: 2})).toThrow('minElements must be at most 1');
+        expect(createDefaultCandidates<string>({minElements: 2}).map(({name}) => name)).not.toContain('shallow');
+    });
+    test('Splits shallow only elements with the minimum weight', () => {
+        const options = {elementWeight: (element: string) => (element === '3' ? 10 : 1), minWeight: 5};
+        const setNodes = splitIntersectionsShallow(sets, options);
+        expect(setNodes.slice(3).map(({set}) => set)).toEqual([new Set(['3'])]);
+        expect(setNodes[1].rest).toEqual(new Set(['2', '4']));
+        expect(validateNodes(setNodes).valid).toBe(true);
+        const arrayNodes = splitIntersectionsShallow([...sets].map((set) => [...set]), options);
+        expect(arrayNodes.slice(3).map(({array}) => array)).toEqual([['3']]);
+        expect(arrayNodes[1].rest).toEqual(['2', '4']);
+        expect(splitIntersectionsShallow(sets, {minWeight: 1}).length).toBe(6);
+    });
+    test('Splits only intersections with the minimum number of elements', () => {
+        const biggestSetNodes = new BiggestIntersectionsSplitter<string>(true, {minElements: 2}).splitSets(sets);
+        expect(biggestSetNodes.slice(3).map(({set}) => set)).toEqual([new Set(['2', '3'])]);
+        expect(biggestSetNodes[2].rest).toEqual(new Set(['3', '4', '5']));
+        expect(validateNodes(biggestSetNodes).valid).toBe(true);
+
+        const weightedSetNodes = new WeightedIntersectionsSplitter(mapFunctionsDict.strings, undefined, undefined, {minElements: 2}).splitSets(sets);
+        expect(weightedSetNodes.slice(3).map(({set}) => set)).toEqual([new Set(['2', '3'])]);
+        expect(validateNodes(weightedSetNodes).valid).toBe(true);
+    });
+    test('Splits only intersections with the minimum weight', () => {
+        const weightedSets = new Set([
+            new Set(['a', 'b', 'c', 'large']),
+            new Set(['a', 'b', 'c']),
+            new Set(['large', 'z']),
+        ]);
+        const options = {elementWeight: (element: string) => (element === 'large' ? 100 : 1), minWeight: 10};
+        const weightedSetNodes = new WeightedIntersectionsSplitter(
+            mapFunctionsDict.strings,
+            weightFunctions.elementsCount,
+            weightFunctions.setsCount,
+            options,
+        ).splitSets(weightedSets);
+        expect(weightedSetNodes.slice(3).map(({set}) => set)).toEqual([new Set(['large'])]);
+        expect(validateNodes(weightedSetNodes).valid).toBe(true);
+        expect(new BiggestIntersectionsSplitter<string>(true, options).splitSets(weightedSets).slice(3).map(({set}) => set)).toEqual([new Set(['large'])]);
+    });
+    test('Skips the biggest intersection when it is below the minimum', () => {
+        const weightedSets = new Set([
+            new Set(['a', 'b', 'large']),
+            new Set(['a', 'b']),
+            new Set(['large', 'z']),
+        ]);
+        const options = {elementWeight: (element: string) => (element === 'large' ? 100 : 1), minElements: 2};
+        const biggestSetNodes = new BiggestIntersectionsSplitter<string>(true, options).splitSets(weightedSets);
+        expect(biggestSetNodes.slice(3).map(({set}) => set)).toEqual([new Set(['a', 'b'])]);
+        expect(biggestSetNodes[2].rest).toEqual(new Set(['large', 'z']));
+        expect(validateNodes(biggestSetNodes).valid).toBe(true);
+        const weightedSetNodes = new WeightedIntersectionsSplitter(mapFunctionsDict.strings, undefined, undefined, options).splitSets(weightedSets);
+        expect(weightedSetNodes.slice(3).map(({set}) => set)).toEqual([new Set(['a', 'b'])]);
+    });
+});
+describe('Limits the depth of the created nodes', () => {
+    test('Splits with weight functions up to the maximum depth', () => {
+        const setNodes = new WeightedIntersectionsSplitter(mapFunctionsDict.strings, undefined, undefined, {maxDepth: 1}).splitSets(new Set([
+            new Set(['1', '2', '3']),
+            new Set(['2', '3', '4']),
+            new Set(['3', '4', '5']),
+        ]));
+        expect(setNodes.slice(2).map(({rest, depth}) => ({rest, depth}))).toEqual([
+            {rest: new Set(['3', '5']), depth: 0},
+            {rest: new Set(['2', '3']), depth: 1},
+            {rest: new Set(['4']), depth: 1},
+        ]);
+        expect(validateNodes(setNodes).valid).toBe(true);
+        expect(new WeightedIntersectionsSplitter(mapFunctionsDict.strings, undefined, undefined, {maxDepth: 0}).splitSets(new Set([
+            new Set(['1', '2']),
+            new Set(['1', '2']),
+        ])).length).toBe(2);
+    });
+    test('Splits the biggest intersections up to the maximum depth', () => {
+        const arrays = [
+            ['1', '2', '3', '4'],
+            ['1', '2', '3', '4'],
+            ['2', '3', '4'],
+            ['2', '3', '4'],
+        ];
+        const arrayNodes = new BiggestIntersectionsSplitter<string>(true, {maxDepth: 1}).splitArrays(arrays);
+        expect(arrayNodes.slice(4).map(({rest, depth}) => ({rest, depth}))).toEqual([
+            {rest: ['1', '2', '3', '4'], depth: 1},
+            {rest: ['2', '3', '4'], depth: 1},
+        ]);
+        expect(arrayNodes[2].imports).toEqual([arrayNodes[5]]);
+        expect(validateNodes(arrayNodes).valid).toBe(true);
+        expect(Math.max(...new BiggestIntersectionsSplitter<string>(true, {maxDepth: 2}).splitArrays(arrays).map(({depth}) => depth))).toBe(2);
+    });
+});
+describe('Limits the number of created nodes', () => {
+    const sets = new Set([
+        new Set(['1', '2', '3', '4']),
+        new Set(['1', '2', '3', '4', '5']),
+        new Set(['4', '5', '6']),
+        new Set(['5', '6', '7']),
+    ]);
+    test('Splits with weight functions only the intersections with the highest weight', () => {
+        const setNodes = new WeightedIntersectionsSplitter(mapFunctionsDict.strings, undefined, undefined, {maxGeneratedNodes: 1}).splitSets(sets);
+        expect(setNodes.slice(4).map(({set}) => set)).toEqual([new Set(['1', '2', '3', '4'])]);
+        expect(setNodes[3].rest).toEqual(new Set(['5', '6', '7']));
+        expect(validateNodes(setNodes).valid).toBe(true);
+        expect(new WeightedIntersectionsSplitter(mapFunctionsDict.strings, undefined, undefined, {maxGeneratedNodes: 0}).splitSets(sets).length).toBe(4);
+    });
+    test('Splits only the biggest intersections', () => {
+        const setNodes = new BiggestIntersectionsSplitter<string>(true, {maxGeneratedNodes: 2}).splitSets(sets);
+        expect(setNodes.slice(4).map(({set}) => set)).toEqual([new Set(['1', '2', '3', '4']), new Set(['5', '6'])]);
+        expect(setNodes[1].rest).toEqual(new Set(['5']));
+        expect(validateNodes(setNodes).valid).toBe(true);
+        expect(new BiggestIntersectionsSplitter<string>(true).splitSets(sets).length).toBeGreaterThan(6);
+    });
+});
+describe('Groups elements by the including collections', () => {
+    test('Creates one node for each group of sets', () => {
+        const sets = new Set([
+            new Set([1, 2, 3, 4, 5]),
+            new Set([1, 2, 3, 6]),
+            new Set([4, 5, 6, 7]),
+        ]);
+        const setNodes = splitIntersectionsGrouped(sets);
+        expect(setNodes.slice(3)).toEqual([
+            {
+                set: new Set([1, 2, 3]), id: createNodeId([1, 2, 3]), rest: new Set([1, 2, 3]), depth: 1, imports: [],
+            },
+            {
+                set: new Set([4, 5]), id: createNodeId([4, 5]), rest: new Set([4, 5]), depth: 1, imports: [],
+            },
+            {
+                set: new Set([6]), id: createNodeId([6]), rest: new Set([6]), depth: 1, imports: [],
+            },
+        ]);
+        expect(setNodes[0].imports).toEqual([setNodes[3], setNodes[4]]);
+        expect(setNodes[2].rest).toEqual(new Set([7]));
+        expect(validateNodes(setNodes).valid).toBe(true);
+        expect(splitIntersectionsGrouped(sets, {minElements: 2}).slice(3).map(({set}) => set)).toEqual([new Set([1, 2, 3]), new Set([4, 5])]);
+    });
+    test('Creates one node for each group of arrays and keyed collections', () => {
+        const arrayNodes = splitIntersectionsGrouped([['a', 'b', 'c'], ['a', 'b', 'c', 'a'], ['c', 'd']]);
+        expect(arrayNodes.slice(3).map(({array}) => array)).toEqual([['a', 'b'], ['c']]);
+        expect(arrayNodes[1].imports).toEqual([arrayNodes[3], arrayNodes[4]]);
+        expect(validateNodes(arrayNodes).valid).toBe(true);
+        const {roots, generated} = splitIntersectionsGrouped({first: [1, 2], second: [1, 2, 3]});
+        expect(generated.map(({array}) => array)).toEqual([[1, 2]]);
+        expect((<ArrayNode<number>>roots.get('second')).rest).toEqual([3]);
+    });
+});
+describe('Splits with the bitset engine', () => {
+    const createArrays = (arraysCount: number, elementsCount: number) => Array.from({length: arraysCount}, (_, i) => Array.from(
+        {length: elementsCount},
+        (__, j) => `e${(i * 7 + j * j * 13) % (elementsCount * 2)}`,
+    ).filter((element, j, array) => array.indexOf(element) === j));
+    test('Counts the bits of words', () => {
+        expect([0, 1, 0xFF, 0x80000000, 0xFFFFFFFF].map(countBits)).toEqual([0, 1, 8, 1, 32]);
+    });
+    test('Creates the same nodes as the default engine', () => {
+        const arrays = createArrays(20, 40);
+        [true, false].forEach((sort) => {
+            const bitSetNodes = new BiggestIntersectionsSplitter<string>(sort, {engine: 'bitset'}).splitArrays(arrays);
+            expect(bitSetNodes).toEqual(new BiggestIntersectionsSplitter<string>(sort).splitArrays(arrays));
+            expect(validateNodes(bitSetNodes).valid).toBe(true);
+        });
+        const elementWeight = (element: string) => element.length;
+        expect(new BiggestIntersectionsSplitter<string>(false, {engine: 'bitset', elementWeight}).splitArrays(arrays))
+            .toEqual(new BiggestIntersectionsSplitter<string>(false, {elementWeight}).splitArrays(arrays));
+    });
+    test('Creates the same nodes as the default engine with weight functions', () => {
+        const sets = new Set(createArrays(20, 40).map((array) => new Set(array)));
+        const createSplitter = (engine: IntersectionEngine, options: WeightedIntersectionsSplitterOptions<string> = {}) => new WeightedIntersectionsSplitter(
+            mapFunctionsDict.strings, undefined, undefined, {...options, engine},
+        );
+        const bitSetNodes = createSplitter('bitset').splitSets(sets);
+        expect(bitSetNodes.length).toBeGreaterThan(sets.size);
+        expect(bitSetNodes).toEqual(createSplitter('default').splitSets(sets));
+        expect(validateNodes(bitSetNodes).valid).toBe(true);
+        const options = {elementWeight: (element: string) => element.length, exactSetCounts: true, maxDepth: 2};
+        expect(createSplitter('bitset', options).splitSets(sets)).toEqual(createSplitter('default', options).splitSets(sets));
+    });
+    test('Creates the same nodes as the default engine with a sort function', () => {
+        type Element = { id: string };
+        // The elements whose id ends with 0 are created for each array, so that they are only equal by the sort function.
+        const elements: Map<string, Element> = new Map();
+        const getElement = (id: string): Element => {
+            if (id.endsWith('0')) {
+                return {id};
+            }
+            if (!elements.has(id)) {
+                elements.set(id, {id});
+            }
+            return <Element>elements.get(id);
+        };
+        const arrays = createArrays(20, 40).map((array) => array.map(getElement));
+        const sort = (element1: Element, element2: Element) => element1.id.localeCompare(element2.id);
+        const idFunction = createNodeIdFunction((array: Element[]) => array.map(({id}) => id).sort().join());
+        const bitSetNodes = new BiggestIntersectionsSplitter<Element>(sort, {engine: 'bitset', idFunction}).splitArrays(arrays);
+        expect(bitSetNodes.length).toBeGreaterThan(arrays.length);
+        expect(bitSetNodes).toEqual(new BiggestIntersectionsSplitter<Element>(sort, {idFunction}).splitArrays(arrays));
+    });
+    test('Throws for elements which are not included in the index', () => {
+        const bitSetIndex = new BitSetIndex([['a', 'b']]);
+        expect(bitSetIndex.countIntersection(['a'], ['a', 'b'])).toBe(1);
+        expect(() => bitSetIndex.countIntersection(['a'], ['c'])).toThrow('Element c is not included in the collections of the bitset index');
+    });
+});
+describe('Counts the sets of intersections exactly', () => {
+    test('Splits first the intersection included in the most sets', () => {
+        const sets = new Set([
+            new Set(['1', '2', 'a']),
+            new Set(['1', '2', 'b']),
+            new Set(['1', '2', 'a', 'b']),
+        ]);
+        const createSplitter = (exactSetCounts: boolean) => new WeightedIntersectionsSplitter(
+            mapFunctionsDict.strings,
+            weightFunctions.setsCount,
+            weightFunctions.elementsCount,
+            {exactSetCounts},
+        );
+        expect(createSplitter(false).splitSets(sets)[3].set).toEqual(new Set(['1', '2', 'a']));
+        const setNodes = createSplitter(true).splitSets(sets);
+        expect(setNodes.slice(3).map(({set}) => set)).toEqual([new Set(['1', '2']), new Set(['a']), new Set(['b'])]);
+        expect(setNodes[2].imports).toEqual([setNodes[3], setNodes[4], setNodes[5]]);
+        expect(validateNodes(setNodes).valid).toBe(true);
+    });
+});
+describe('Passes the context of the intersection to the weight functions', () => {
+    test('Passes the elements, nodes, roots and depth', () => {
+        const contexts: {elements: string[], nodes: SetNode<string>[], roots: SetNode<string>[], rootKeys: unknown[], depth: number, rootsCount: number}[] = [];
+        const keyedSets = new Map([
+            ['home', new Set(['a', 'b', 'c'])],
+            ['about', new Set(['a', 'b', 'd'])],
+            ['contact', new Set(['a', 'e'])],
+        ]);
+        const weightFunction: WeightFunction<string> = ({
+            intersectingElements, intersectingElementsCount, intersectingNodes, intersectingRoots, intersectingRootKeys, depth, rootsCount,
+        }) => {
+            contexts.push({
+                elements: intersectingElements, nodes: intersectingNodes, roots: intersectingRoots, rootKeys: intersectingRootKeys, depth, rootsCount,
+            });
+            return intersectingElementsCount;
+        };
+        const {roots, generated} = new WeightedIntersectionsSplitter(mapFunctionsDict.strings, weightFunction).splitSets(keyedSets);
+        expect(generated.map(({set}) => set)).toEqual([new Set(['a', 'b']), new Set(['a'])]);
+        expect(contexts.find(({elements}) => elements.join() === 'a,b')).toEqual({
+            elements: ['a', 'b'],
+            nodes: [roots.get('home'), roots.get('about')],
+            roots: [roots.get('home'), roots.get('about')],
+            rootKeys: ['home', 'about'],
+            depth: 1,
+            rootsCount: 3,
+        });
+        expect(contexts[contexts.length - 1]).toMatchObject({
+            elements: ['a'],
+            rootKeys: ['home', 'about', 'contact'],
+            depth: 2,
+        });
+    });
+    test('Passes the keys only for keyed collections', () => {
+        const rootKeys: unknown[][] = [];
+        const weightFunction: WeightFunction<string> = ({intersectingElementsCount, intersectingRootKeys}) => {
+            rootKeys.push(intersectingRootKeys);
+            return intersectingElementsCount;
+        };
+        const splitter = new WeightedIntersectionsSplitter(mapFunctionsDict.strings, weightFunction);
+        splitter.splitArrays({home: ['a', 'b'], about: ['a', 'b', 'c']});
+        expect(rootKeys).toContainEqual(['home', 'about']);
+        rootKeys.length = 0;
+        splitter.splitArrays([['a', 'b'], ['a', 'b', 'c']]);
+        expect(rootKeys.length).toBeGreaterThan(0);
+        expect(rootKeys.every((keys) => keys.length === 0)).toBe(true);
+    });
+});
+describe('Splits by the traffic of the roots', () => {
+    const keyedSets = new Map([
+        ['home', new Set(['a', 'b', 'c', 'd'])],
+        ['about', new Set(['a', 'b', 'c', 'e'])],
+        ['rare', new Set(['a', 'f'])],
+    ]);
+    const traffic = new Map([['home', 100], ['about', 100], ['rare', 1]]);
+    const rootFrequency = (_: Set<string>, __: number, key: unknown) => <number>traffic.get(<string>key);
+    test('Calculates the expected downloads per visit', () => {
+        expect(getExpectedDownloadsPerVisit(1, 10)).toBe(0.1);
+        expect(getExpectedDownloadsPerVisit(0.5, 1)).toBe(0.5);
+        expect(getExpectedDownloadsPerVisit(0, 10)).toBe(0);
+    });
+    test('Splits intersections which lower the expected payload', () => {
+        const {nodes, generated} = new TrafficIntersectionsSplitter(rootFrequency).splitSets(keyedSets);
+        expect(generated.map(({set}) => set)).toEqual([new Set(['a', 'b', 'c']), new Set(['a'])]);
+        expect(validateNodes(nodes).valid).toBe(true);
+        const withRequestCost = new TrafficIntersectionsSplitter(rootFrequency, {requestCost: 1}).splitSets(keyedSets);
+        expect(withRequestCost.generated.map(({set}) => set)).toEqual([new Set(['a', 'b', 'c'])]);
+        expect(withRequestCost.roots.get('rare')?.rest).toEqual(new Set(['a', 'f']));
+        const keyedArrays = Object.fromEntries([...keyedSets].map(([key, set]) => [key, [...set]]));
+        expect(new TrafficIntersectionsSplitter(rootFrequency).splitArrays(keyedArrays).generated.map(({array}) => array)).toEqual([['a', 'b', 'c'], ['a']]);
+    });
+    test('Adds the expected payload to the metrics', () => {
+        const metrics = new GetNodeMetrics<string, SetNode<string>>({rootFrequency});
+        const {nodes} = new TrafficIntersectionsSplitter(rootFrequency).splitSets(keyedSets);
+        const unsplitNodes = new TrafficIntersectionsSplitter(rootFrequency, {maxGeneratedNodes: 0}).splitSets(keyedSets).nodes;
+        const {expectedPayload, expectedRequests} = metrics.getNodeMetrics(nodes);
+        expect(<number>expectedPayload).toBeLessThan(<number>metrics.getNodeMetrics(unsplitNodes).expectedPayload);
+        expect(expectedRequests).toBeCloseTo([100, 100, 1, 200, 201].reduce((sum, frequency) => sum + getExpectedDownloadsPerVisit(frequency / 201, 10), 0));
+        expect(new GetNodeMetrics().getNodeMetrics(nodes)).not.toHaveProperty('expectedPayload');
+    });
+});
+describe('Splits by a cost model', () => {
+    const arrays = [
+        [1, 2, 3, 4, 5],
+        [1, 2, 3, 4, 5, 6],
+        [1, 7],
+    ];
+    test('Splits intersections only when the total cost decreases', () => {
+        const splitWithRequestCost = (requestCost: number) => new CostIntersectionsSplitter<number>({requestCost}).splitArrays(arrays).slice(3).map(({array}) => array);
+        expect(splitWithRequestCost(0)).toEqual([[1, 2, 3, 4, 5], [1]]);
+        expect(splitWithRequestCost(2)).toEqual([[1, 2, 3, 4, 5]]);
+        expect(splitWithRequestCost(3)).toEqual([]);
+    });
+    test('Uses the weights of the elements', () => {
+        const setNodes = new CostIntersectionsSplitter<number>({requestCost: 100, elementCost: 0.5}, {elementWeight: (element) => element * 100})
+            .splitSets(new Set(arrays.map((array) => new Set(array))));
+        expect(setNodes.slice(3).map(({set}) => set)).toEqual([new Set([1, 2, 3, 4, 5])]);
+        expect(setNodes[2].rest).toEqual(new Set([1, 7]));
+        expect(validateNodes(setNodes).valid).toBe(true);
+    });
+});
+describe('Splits optimally by branch and bound', () => {
+    const arrays = [
+        [1, 2, 3, 4, 5],
+        [1, 2, 3, 4, 5, 6],
+        [1, 7],
+    ];
+    test('Finds the split with the lowest cost', () => {
+        const splitter = new OptimalIntersectionsSplitter<number>();
+        const nodes = splitter.splitArrays(arrays);
+        expect(nodes.slice(3).map(({array}) => array)).toEqual([[1], [2, 3, 4, 5]]);
+        expect(splitter.lastSearchResult).toEqual(expect.objectContaining({optimal: true, cost: 7}));
+        expect(validateNodes(nodes).valid).toBe(true);
+    });
+    test('Limits the nodes per root', () => {
+        const splitter = new OptimalIntersectionsSplitter<number>({requestCost: 0}, {maxNodesPerRoot: 2});
+        const nodes = splitter.splitArrays(arrays);
+        expect(nodes.slice(3).map(({array}) => array)).toEqual([[1, 2, 3, 4, 5]]);
+        expect(nodes[2].rest).toEqual([1, 7]);
+        expect(splitter.lastSearchResult?.cost).toBe(8);
+    });
+    test('Measures the gap of the greedy splitters', () => {
+        const sets = new Set([
+            new Set(['a', 'b', 'c', 'd']),
+            new Set(['a', 'b', 'e', 'f']),
+            new Set(['c', 'd', 'e', 'f']),
+            new Set(['a', 'c', 'e', 'g']),
+            new Set(['b', 'd', 'f', 'g']),
+        ]);
+        const costModel = {requestCost: 1};
+        const splitter = new OptimalIntersectionsSplitter<string>(costModel);
+        const optimalNodes = splitter.splitSets(sets);
+        const optimalCost = getNodesCost(optimalNodes, costModel);
+        expect(splitter.lastSearchResult?.optimal).toBe(true);
+        expect(optimalCost).toBe(splitter.lastSearchResult?.cost);
+        expect(validateNodes(optimalNodes).valid).toBe(true);
+        [
+            new CostIntersectionsSplitter<string>(costModel).splitSets(sets),
+            new BiggestIntersectionsSplitter(true).splitSets(sets),
+            new WeightedIntersectionsSplitter(mapFunctionsDict.strings).splitSets(sets),
+        ].forEach((greedyNodes) => {
+            expect(getNodesCost(greedyNodes, costModel)).toBeGreaterThanOrEqual(optimalCost);
+        });
+    });
+    test('Returns the best result found when the limit is reached', () => {
+        const splitter = new OptimalIntersectionsSplitter<number>({requestCost: 0}, {maxSteps: 1});
+        const nodes = splitter.splitArrays(arrays);
+        expect(splitter.lastSearchResult).toEqual(expect.objectContaining({optimal: false}));
+        expect(validateNodes(nodes).valid).toBe(true);
+        const {roots} = splitter.splitArrays(new Map([['x', [1, 2]], ['y', [2, 3]]]));
+        expect(roots.get('y')?.imports.map(({array}) => array)).toEqual([[2]]);
+    });
+});
+describe('Splits by the concept lattice', () => {
+    const sets = new Set([
+        new Set(['a', 'b', 'c', 'x']),
+        new Set(['a', 'b', 'd', 'y']),
+        new Set(['a', 'c', 'd', 'z']),
+    ]);
+    test('Creates the nodes of the closed intersections in lattice order', () => {
+        const setNodes = splitIntersectionsLattice(sets);
+        expect(setNodes.slice(3).map(({set, rest, depth}) => [set, rest, depth])).toEqual([
+            [new Set(['b', 'a']), new Set(['b']), 1],
+            [new Set(['c', 'a']), new Set(['c']), 1],
+            [new Set(['d', 'a']), new Set(['d']), 1],
+            [new Set(['a']), new Set(['a']), 2],
+        ]);
+        expect(setNodes[0].imports).toEqual([setNodes[3], setNodes[4]]);
+        expect(setNodes[0].rest).toEqual(new Set(['x']));
+        expect(setNodes[3].imports).toEqual([setNodes[6]]);
+        expect(validateNodes(setNodes).valid).toBe(true);
+    });
+    test('Keeps the elements of small concepts in the roots', () => {
+        const {roots, generated} = splitIntersectionsLattice({
+            first: ['a', 'b', 'c', 'x'],
+            second: ['a', 'b', 'c', 'y'],
+            third: ['a', 'z'],
+        }, {minElements: 2});
+        expect(generated.map(({array}) => array)).toEqual([['b', 'c']]);
+        expect(roots.get('first')?.rest).toEqual(['a', 'x']);
+        expect(roots.get('third')?.imports).toEqual([]);
+    });
+});
+describe('Updates a previous split', () => {
+    const home = new Set(['a', 'b', 'c', 'd', 'h']);
+    const about = new Set(['a', 'b', 'c', 'd', 'e']);
+    const blog = new Set(['a', 'b', 'f']);
+    const previousNodes = new BiggestIntersectionsSplitter(true).splitSets(new Set([home, about, blog]));
+    test('Keeps the unchanged nodes', () => {
+        const previousIds = previousNodes.map(({id}) => id);
+        const newAbout = new Set(['a', 'b', 'c', 'e', 'g']);
+        const shop = new Set(['a', 'b', 'c', 'd', 'g']);
+        const {
+            nodes, created, removed, changed,
+        } = updateSplit(previousNodes, {added: [shop], removed: [blog], modified: new Map([[about, newAbout]])});
+        expect(validateNodes(nodes).valid).toBe(true);
+        expect(nodes.map(({set}) => set)).toEqual([home, newAbout, shop, new Set(['a', 'b', 'c', 'd']), new Set(['a', 'b']), new Set(['g'])]);
+        expect(nodes[0].id).toBe(previousIds[0]);
+        expect(nodes[3].id).toBe(previousIds[3]);
+        expect(changed).toEqual([nodes[1]]);
+        expect(created).toEqual([nodes[2], nodes[5]]);
+        expect(removed).toEqual([blog].map((set) => previousNodes.find((node) => node.set === set)));
+        expect(nodes[1].imports.map(({set}) => set)).toEqual([new Set(['a', 'b']), new Set(['g'])]);
+        expect(nodes[1].rest).toEqual(new Set(['c', 'e']));
+        expect(nodes[2].imports.map(({set}) => set)).toEqual([new Set(['a', 'b', 'c', 'd']), new Set(['g'])]);
+        expect(validateNodes(previousNodes).valid).toBe(true);
+        expect(previousNodes.map(({id}) => id)).toEqual(previousIds);
+    });
+    test('Matches the roots of the split function by their elements', () => {
+        const changes = {added: [new Set(['a', 'b', 'x', 'y']), new Set(['a', 'b', 'c', 'x'])]};
+        const {nodes} = updateSplit(previousNodes, changes);
+        const copiedRootsNodes = updateSplit(previousNodes, changes, {
+            splitFunction: (sets) => {
+                const splitNodes = splitIntersectionsGrouped(sets);
+                const rootNodes = splitNodes.filter(({depth}) => depth === 0).map((node) => ({...node, set: new Set(node.set)}));
+                return [...rootNodes.reverse(), ...splitNodes.filter(({depth}) => depth !== 0)];
+            },
+        }).nodes;
+        expect(copiedRootsNodes).toEqual(nodes);
+        expect(nodes.slice(3).map(({set}) => set)).toContainEqual(new Set(['x']));
+        expect(() => updateSplit(previousNodes, changes, {splitFunction: () => []}))
+            .toThrow('The split function returned no root node with the elements x, y');
+    });
+    test('Splits the rest of unchanged roots which share elements with the changed roots', () => {
+        const {nodes, changed, created} = updateSplit(previousNodes, {added: [new Set(['h', 'x'])]});
+        expect(nodes[0].rest).toEqual(new Set());
+        expect(nodes[0].imports.map(({set}) => set)).toEqual([new Set(['a', 'b', 'c', 'd']), new Set(['h'])]);
+        expect(nodes[3].rest).toEqual(new Set(['x']));
+        expect(changed).toEqual([nodes[0]]);
+        expect(created.map(({set}) => set)).toEqual([new Set(['h', 'x']), new Set(['h'])]);
+        expect(validateNodes(nodes).valid).toBe(true);
+        expect(previousNodes[0].rest).toEqual(new Set(['h']));
+        expect(previousNodes[0].imports.length).toBe(1);
+    });
+    test('Copies the rest of the previous nodes', () => {
+        const {nodes} = updateSplit(previousNodes, {});
+        nodes[2].rest.add('x');
+        expect(nodes[2].rest).not.toBe(previousNodes[2].rest);
+        expect(previousNodes[2].rest.has('x')).toBe(false);
+    });
+    test('Throws for sets which are not roots', () => {
+        expect(() => updateSplit(previousNodes, {removed: [new Set(['a'])]})).toThrow('Changed set is not a root set of the previous split');
+    });
+});
+describe('Compares two splits', () => {
+    const arrays = [
+        ['a', 'b', 'c', 'x'],
+        ['a', 'b', 'c', 'y'],
+        ['a', 'b', 'z'],
+    ];
+    const biggestNodes = new BiggestIntersectionsSplitter(true).splitArrays(arrays);
+    const groupedNodes = splitIntersectionsGrouped(arrays);
+    test('Reports the differences of the nodes', () => {
+        const splitDiff = diffSplits(biggestNodes, groupedNodes);
+        expect(splitDiff.added.map(({array}) => array)).toEqual([['c']]);
+        expect(splitDiff.removed.map(({array}) => array)).toEqual([['a', 'b', 'c']]);
+        expect(splitDiff.changedImports.map(({root}) => root)).toEqual(groupedNodes.slice(0, 2));
+        expect(splitDiff.moved.map(({element, to}) => [element, to])).toEqual([['c', [groupedNodes[4]]]]);
+        expect(splitDiff.metricDeltas).toEqual(expect.objectContaining({maxDepth: -1, generatedNodes: 0}));
+        expect(diffSplits(biggestNodes, biggestNodes.map((node) => ({...node})))).toEqual({
+            added: [], removed: [], moved: [], changedImports: [], metricDeltas: expect.objectContaining({maxDepth: 0}),
+        });
+    });
+    test('Formats the differences', () => {
+        const text = formatSplitDiff(diffSplits(biggestNodes, groupedNodes), {maxElements: 2});
+        expect(text.split('\n').slice(0, 5)).toEqual([
+            '+ node [c]',
+            '- node [a, b, … (+1)]',
+            '~ root [a, b, … (+2)], imports node [a, b], node [c], no longer imports node [a, b, … (+1)]',
+            '~ root [a, b, … (+2)], imports node [a, b], node [c], no longer imports node [a, b, … (+1)]',
+            '> c: node [a, b, … (+1)] -> node [c]',
+        ]);
+        expect(text).toContain('Δ maxDepth: -1');
+    });
+});
+describe('Optimizes split nodes', () => {
+    test('Merges nodes with one importer and drops empty pass-through nodes', () => {
+        const leafNode: ArrayNode<string> = {
+            array: ['d'], id: 'd', rest: ['d'], depth: 3, imports: [],
+        };
+        const passThroughNode: ArrayNode<string> = {
+            array: ['d'], id: 'd', rest: [], depth: 2, imports: [leafNode],
+        };
+        const sharedNode: ArrayNode<string> = {
+            array: ['a', 'b', 'c', 'd'], id: 'a,b,c,d', rest: ['a', 'b'], depth: 1, imports: [],
+        };
+        const singleImporterNode: ArrayNode<string> = {
+            array: ['c', 'd'], id: 'c,d', rest: ['c'], depth: 2, imports: [passThroughNode],
+        };
+        sharedNode.imports.push(singleImporterNode);
+        const nodes: ArrayNode<string>[] = [
+            {
+                array: ['a', 'b', 'c', 'd', 'x'], id: 'x', rest: ['x'], depth: 0, imports: [sharedNode],
+            },
+            {
+                array: ['a', 'b', 'c', 'd', 'y'], id: 'y', rest: ['y'], depth: 0, imports: [sharedNode],
+            },
+            sharedNode,
+            singleImporterNode,
+            passThroughNode,
+            leafNode,
+        ];
+        const optimizedNodes = optimizeNodes(nodes);
+        expect(optimizedNodes.map(({array, rest, depth}) => [array, rest, depth])).toEqual([
+            [['a', 'b', 'c', 'd', 'x'], ['x'], 0],
+            [['a', 'b', 'c', 'd', 'y'], ['y'], 0],
+            [['a', 'b', 'c', 'd'], ['a', 'b', 'c', 'd'], 1],
+        ]);
+        expect(optimizedNodes[0].imports).toEqual([optimizedNodes[2]]);
+        expect(validateNodes(optimizedNodes).valid).toBe(true);
+        expect(sharedNode.rest).toEqual(['a', 'b']);
+    });
+    test('Can be used after the splitters', () => {
+        const arrays = [
+            ['a', 'b', 'c', 'x'],
+            ['a', 'b', 'c', 'y'],
+            ['a', 'b', 'z'],
+        ];
+        [
+            new BiggestIntersectionsSplitter(true).splitArrays(arrays),
+            new WeightedIntersectionsSplitter(mapFunctionsDict.strings).splitArrays(arrays),
+            splitIntersectionsShallow(arrays),
+        ].forEach((arrayNodes) => {
+            const optimizedNodes = optimizeNodes(arrayNodes);
+            expect(validateNodes(optimizedNodes).valid).toBe(true);
+            expect(optimizedNodes.length).toBeLessThanOrEqual(arrayNodes.length);
+        });
+    });
+});
+describe('Splits with an over-fetch budget', () => {
+    const arrays = [
+        ['a', 'b', 'c', 'd', 'x'],
+        ['a', 'b', 'c', 'y'],
+        ['a', 'b', 'c', 'd', 'z'],
+    ];
+    test('Merges nodes within the budget of the roots', () => {
+        const getGenerated = (arrayNodes: ArrayNode<string>[]) => arrayNodes.slice(3).map(({array}) => array);
+        expect(getGenerated(new OverFetchIntersectionsSplitter<string>().splitArrays(arrays))).toEqual([['a', 'b', 'c'], ['d']]);
+        expect(getGenerated(new OverFetchIntersectionsSplitter<string>({maxOverFetchRatio: 0.2}).splitArrays(arrays))).toEqual([['a', 'b', 'c'], ['d']]);
+        const arrayNodes = new OverFetchIntersectionsSplitter<string>({maxOverFetchRatio: 0.25}).splitArrays(arrays);
+        expect(getGenerated(arrayNodes)).toEqual([['a', 'b', 'c', 'd']]);
+        expect(arrayNodes[1].imports).toEqual([arrayNodes[3]]);
+        expect(arrayNodes[1].rest).toEqual(['y']);
+        expect(validateNodes(arrayNodes).issues.map(({type, node}) => [type, node])).toEqual([['extraElements', arrayNodes[1]]]);
+    });
+    test('Adds the over-fetch to the metrics', () => {
+        const elementWeight = (element: string) => (element === 'd' ? 10 : 1);
+        const metrics = new GetNodeMetrics<string, ArrayNode<string>>({elementWeight});
+        expect(metrics.getNodeMetrics(new OverFetchIntersectionsSplitter<string>({elementWeight, maxOverFetch: 9}).splitArrays(arrays)).overFetch).toBe(0);
+        const arrayNodes = new OverFetchIntersectionsSplitter<string>({elementWeight, maxOverFetch: 10}).splitArrays(arrays);
+        expect(metrics.getNodeMetrics(arrayNodes).overFetch).toBe(10);
+        expect(new GetNodeMetrics().getNodeMetrics(arrayNodes).overFetch).toBe(1);
+    });
+});
+describe('Adds the extended metrics', () => {
+    const arrays = [
+        ['a', 'b', 'c', 'x'],
+        ['a', 'b', 'c', 'y'],
+        ['a', 'b', 'z'],
+    ];
+    test('Reports the duplication and the metrics per root', () => {
+        const arrayNodes = new BiggestIntersectionsSplitter<string>(true).splitArrays(arrays);
+        const metrics = new GetNodeMetrics<string, ArrayNode<string>>({extendedMetrics: true, worstRootsCount: 1}).getNodeMetrics(arrayNodes);
+        expect(metrics).toMatchObject({
+            storedElements: 6,
+            duplicationFactor: 1,
+            requestsPerRoot: {p50: 3, p90: 3, max: 3},
+            elementsPerRoot: {p50: 4, p90: 4, max: 4},
+            worstRoots: {byRequests: [arrayNodes[0]], byElements: [arrayNodes[0]]},
+        });
+        expect(metrics.perRoot?.map(({
+            root, requests, elements, maxDepth,
+        }) => [root, requests, elements, maxDepth])).toEqual([
+            [arrayNodes[0], 3, 4, 2],
+            [arrayNodes[1], 3, 4, 2],
+            [arrayNodes[2], 2, 3, 1],
+        ]);
+        expect(new GetNodeMetrics().getNodeMetrics(arrayNodes)).not.toHaveProperty('perRoot');
+    });
+    test('Uses the weights of the elements', () => {
+        const arrayNodes = new BiggestIntersectionsSplitter<string>(true, {maxGeneratedNodes: 0}).splitArrays(arrays);
+        const elementWeight = (element: string) => (element === 'z' ? 10 : 1);
+        const metrics = new GetNodeMetrics<string, ArrayNode<string>>({extendedMetrics: true, elementWeight}).getNodeMetrics(arrayNodes);
+        expect(metrics).toMatchObject({
+            storedElements: 11,
+            storedElementsWeight: 20,
+            duplicationFactor: 11 / 6,
+            requestsPerRoot: {p50: 1, p90: 1, max: 1},
+            elementsPerRoot: {p50: 4, p90: 12, max: 12},
+        });
+        expect(metrics.worstRoots?.byElements).toEqual([arrayNodes[2], arrayNodes[0], arrayNodes[1]]);
+    });
+});
+describe('Calculates the metrics over distinct nodes', () => {
+    const sharedNode: ArrayNode<string> = {
+        array: ['c'], id: 'c', rest: ['c'], depth: 2, imports: [],
+    };
+    const nodes: ArrayNode<string>[] = [
+        {
+            array: ['a', 'b', 'c', 'x'], id: 'x', rest: ['x'], depth: 0, imports: [],
+        },
+        {
+            array: ['a', 'c'], id: 'a,c', rest: ['a'], depth: 1, imports: [sharedNode],
+        },
+        {
+            array: ['b', 'c'], id: 'b,c', rest: ['b'], depth: 1, imports: [sharedNode],
+        },
+        sharedNode,
+    ];
+    nodes[0].imports.push(nodes[1], nodes[2]);
+    test('Counts nodes reachable by two paths once', () => {
+        const metrics = new GetNodeMetrics<string, ArrayNode<string>>({extendedMetrics: true}).getNodeMetrics(nodes);
+        expect(metrics).toMatchObject({
+            maxDepth: 2,
+            avgDepth: 2,
+            avgLeaves: 1,
+            avgImports: 4,
+            avgNodes: 4,
+            tree: {
+                avgLeaves: 2,
+                avgImports: 4,
+                avgNodes: 5,
+                avgDepth: 2,
+            },
+        });
+        expect(metrics.perRoot?.[0].tree.nodes).toBe(5);
+    });
+    test('Handles roots without leaves', () => {
+        const emptyRoot: ArrayNode<string> = {
+            array: [], id: '', rest: [], depth: 0, imports: [],
+        };
+        expect(new GetNodeMetrics<string, ArrayNode<string>>().getNodeMetrics([emptyRoot])).toMatchObject({
+            maxDepth: 0, avgDepth: 0, avgLeaves: 0, avgNodes: 1, tree: {avgDepth: 0},
+        });
+        expect(new GetNodeMetrics<string, ArrayNode<string>>().getNodeMetrics([])).toMatchObject({avgDepth: 0, avgNodes: 0});
+    });
+});
+describe('Compares splitters', () => {
+    const sets = new Set([
+        new Set(['a', 'b', 'c', 'x']),
+        new Set(['a', 'b', 'c', 'y']),
+        new Set(['a', 'b', 'z']),
+    ]);
+    const candidates = [
+        ...createDefaultCandidates<string>(),
+        {name: 'over-fetch', splitFunction: new OverFetchIntersectionsSplitter<string>({maxOverFetch: 1}).splitSets},
+    ];
+    test('Ranks the results by the objective', () => {
+        const {ranking, best} = compareSplitters(sets, candidates, 'requests');
+        expect(ranking).toHaveLength(candidates.length);
+        expect(best?.name).toBe('grouped');
+        expect(best?.score).toBeCloseTo(8 / 3);
+        expect(ranking[ranking.length - 1]).toEqual(expect.objectContaining({name: 'over-fetch', validation: expect.objectContaining({valid: false})}));
+        expect(ranking.find(({name}) => name === 'shallow')?.score).toBeCloseTo(11 / 3);
+        expect(ranking.slice(0, -1).every(({score}, i) => i === 0 || ranking[i - 1].score <= score)).toBe(true);
+        expect(compareSplitters(sets, candidates, 'duplication').best?.metrics?.duplicationFactor).toBe(1);
+        expect(compareSplitters(sets, candidates, (metrics) => -metrics.avgNodes).best?.name).toBe('shallow');
+    });
+    test('Ranks results with missing elements last', () => {
+        const missingElements = {
+            name: 'missing elements',
+            splitFunction: (setsToSplit: Set<Set<string>>) => {
+                const nodes = splitIntersectionsShallow(setsToSplit);
+                nodes[0].rest = new Set();
+                return nodes;
+            },
+        };
+        const {ranking, best} = compareSplitters(sets, [missingElements, ...candidates.slice(0, 2)]);
+        expect(ranking.map(({name}) => name)).toEqual(['grouped', 'shallow', 'missing elements']);
+        expect(ranking[2].metrics).toBeUndefined();
+        expect(ranking[2].score).toBe(Infinity);
+        expect(best?.name).toBe('grouped');
+        expect(formatSplitterComparison({ranking}).split('\n')[3]).toMatch(/^3 +missing elements +Infinity +no +\d+ +- +- +\d+$/);
+    });
+    test('Selects the best result', () => {
+        expect(autoSplit(sets, 'maxRequests')).toEqual(splitIntersectionsGrouped(sets));
+        expect(() => autoSplit(sets, 'requests', candidates.slice(-1))).toThrow('No candidate returned valid nodes');
+    });
+    test('Ranks the results of empty input', () => {
+        const emptySets: Set<Set<string>> = new Set();
+        expect(new GetNodeMetrics({extendedMetrics: true}).getNodeMetrics([]).duplicationFactor).toBe(1);
+        const {ranking} = compareSplitters(emptySets, candidates.slice(0, 2), 'duplication');
+        expect(ranking.map(({score}) => score)).toEqual([1, 1]);
+        expect(compareSplitters(emptySets, candidates.slice(0, 2), 'requests').ranking.map(({score}) => score)).toEqual([0, 0]);
+        expect(autoSplit(emptySets, 'duplication', candidates.slice(0, 2))).toEqual([]);
+    });
+    test('Formats the ranking', () => {
+        const lines = formatSplitterComparison(compareSplitters(sets, candidates.slice(0, 2))).split('\n');
+        expect(lines[0]).toMatch(/^rank +name +score +valid +nodes +requests +duplication +ms$/);
+        expect(lines[1]).toMatch(/^1 +grouped +2\.67 +yes +5 +2\.67 +1 +\d+$/);
+        expect(lines).toHaveLength(3);
+    });
 });